@@ -0,0 +1,140 @@
+/**
+ * Reflection history reader for scripts
+ *
+ * Lists the verdicts the reflection plugin saved in <project>/.reflection/ - the same records
+ * `/reflection` shows. Not a plugin: don't copy it into the OpenCode plugin directory, which
+ * loads every export there as a plugin. Import it from scripts instead:
+ *
+ *   import { listReflections } from "./reflection-history.ts"
+ *   const failed = await listReflections(process.cwd(), { complete: false, limit: 10 })
+ *
+ * reflection.ts keeps its own copy of this reader so the plugin stays a single file - keep them in sync.
+ */
+
+import { readFile, readdir } from "fs/promises"
+import { join } from "path"
+
+export type Severity = "NONE" | "LOW" | "MEDIUM" | "HIGH" | "BLOCKER"
+
+const SEVERITIES: Severity[] = ["NONE", "LOW", "MEDIUM", "HIGH", "BLOCKER"]
+
+export interface Verdict {
+  complete: boolean
+  severity: Severity
+  feedback: string
+  missing: string[]
+  next_actions: string[]
+}
+
+// Reflection data files are named <session prefix>_<timestamp>.json
+const REFLECTION_FILE_PATTERN = /^.+_(\d+)\.json$/
+
+export interface ReflectionRecord {
+  file: string
+  sessionId?: string
+  humanMsgCount?: number  // Identifies the task within its session
+  timestamp: string
+  task: string
+  verdict: Verdict | null
+  error?: string
+  judgeModel?: string
+  taskType?: string
+  cached?: boolean        // Reused from the verdict cache, no judge ran
+}
+
+export interface ReflectionFilter {
+  sessionId?: string      // Only this session (matched by file prefix for older records)
+  humanMsgCount?: number  // Only this task within the session
+  severity?: Severity
+  complete?: boolean
+  limit?: number
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === "string")
+}
+
+/**
+ * Validate a stored verdict against the verdict schema
+ */
+function validateVerdict(raw: unknown): { verdict?: Verdict; error?: string } {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { error: "verdict must be a JSON object" }
+  }
+  const obj = raw as Record<string, unknown>
+  if (typeof obj.complete !== "boolean") {
+    return { error: '"complete" must be true or false' }
+  }
+  const severity = typeof obj.severity === "string" ? obj.severity.trim().toUpperCase() : obj.severity
+  if (!SEVERITIES.includes(severity as Severity)) {
+    return { error: `"severity" must be one of ${SEVERITIES.join(", ")}` }
+  }
+  if (typeof obj.feedback !== "string") {
+    return { error: '"feedback" must be a string' }
+  }
+  for (const key of ["missing", "next_actions"]) {
+    if (obj[key] !== undefined && !isStringArray(obj[key])) {
+      return { error: `"${key}" must be an array of strings` }
+    }
+  }
+  return {
+    verdict: {
+      complete: obj.complete,
+      severity: severity as Severity,
+      feedback: obj.feedback,
+      missing: (obj.missing as string[] | undefined) || [],
+      next_actions: (obj.next_actions as string[] | undefined) || []
+    }
+  }
+}
+
+/**
+ * Read saved verdicts from <directory>/.reflection/, newest first
+ */
+export async function listReflections(directory: string, filter: ReflectionFilter = {}): Promise<ReflectionRecord[]> {
+  const dir = join(directory, ".reflection")
+  let files: string[]
+  try {
+    files = (await readdir(dir)).filter(f => REFLECTION_FILE_PATTERN.test(f))
+  } catch {
+    return []
+  }
+  if (filter.sessionId) {
+    const prefix = `${filter.sessionId.slice(0, 8)}_`
+    files = files.filter(f => f.startsWith(prefix))
+  }
+  // Newest first by the timestamp in the file name
+  const savedAt = (file: string) => Number(REFLECTION_FILE_PATTERN.exec(file)![1])
+  files.sort((a, b) => savedAt(b) - savedAt(a))
+
+  const records: ReflectionRecord[] = []
+  for (const file of files) {
+    let data: any
+    try {
+      data = JSON.parse(await readFile(join(dir, file), "utf-8"))
+    } catch {
+      continue
+    }
+    if (filter.sessionId && data.sessionId && data.sessionId !== filter.sessionId) continue
+    if (filter.humanMsgCount !== undefined && data.humanMsgCount !== filter.humanMsgCount) continue
+    // Older files stored whatever the judge replied - only a verdict that validates is returned as one
+    const stored = data.verdict ? validateVerdict(data.verdict) : {}
+    const verdict = stored.verdict || null
+    if (filter.severity && verdict?.severity !== filter.severity) continue
+    if (filter.complete !== undefined && verdict?.complete !== filter.complete) continue
+    records.push({
+      file,
+      sessionId: data.sessionId,
+      humanMsgCount: data.humanMsgCount,
+      timestamp: String(data.timestamp ?? ""),
+      task: typeof data.task === "string" ? data.task : "",
+      verdict,
+      error: stored.error ? `invalid stored verdict: ${stored.error}` : data.error,
+      judgeModel: data.judgeModel,
+      taskType: data.taskType,
+      cached: data.cached
+    })
+    if (filter.limit && records.length >= filter.limit) break
+  }
+  return records
+}
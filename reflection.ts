@@ -6,24 +6,1612 @@
  */
 
 import type { Plugin } from "@opencode-ai/plugin"
-import { readFile, writeFile, mkdir } from "fs/promises"
+import type { Message, Part, Session, ToolPart } from "@opencode-ai/sdk"
+import { readFile, writeFile, appendFile, mkdir, stat, readdir, rename } from "fs/promises"
 import { join } from "path"
+import { homedir } from "os"
+import { spawn, execFile } from "child_process"
+import { promisify } from "util"
+import { createHash } from "crypto"
 
+const execFileAsync = promisify(execFile)
+
+// Defaults - override in reflection.json or with REFLECTION_* env vars
 const MAX_ATTEMPTS = 3
 const JUDGE_RESPONSE_TIMEOUT = 180_000
-const POLL_INTERVAL = 2_000
+const POLL_INTERVAL = 10_000
+const AGENTS_MAX_CHARS = 1500
+const RESULT_MAX_CHARS = 2000
+const TRANSCRIPT_MAX_TOKENS = 8000
+const TOOL_OUTPUT_MAX_CHARS = 2000
+const DIFF_MAX_CHARS = 6000
+const GIT_TIMEOUT = 10_000
+const VERIFY_TIMEOUT = 300_000
+const VERIFY_KILL_GRACE = 2_000        // SIGTERM -> SIGKILL for a verification command that won't stop
+const VERIFY_MAX_OUTPUT = 16 * 1024 * 1024
+const SETTLE_DELAY = 3_000
+const MAX_CONCURRENT = 2
+
+// Global policy file; a project-level .opencode/reflection.json overrides it
+const GLOBAL_CONFIG_PATH = join(homedir(), ".config", "opencode", "reflection.json")
+
+// Judge sessions are created with this title prefix so both plugins can recognize them.
+// Keep in sync with JUDGE_TITLE_PREFIX in tts.ts
+const JUDGE_TITLE_PREFIX = "[reflection-judge]"
+
+// Error for a judge run cut short because the user intervened
+const CANCELLED = "cancelled"
+
+// Never write to stdout/stderr - it breaks the TUI. Diagnostics go to .reflection/reflection.log
+
+// ==================== JUDGE PROMPT ====================
+
+type PromptPreset = "release-manager" | "prototype" | "docs" | "question"
+
+// Placeholders available in presets and custom rubric files
+interface PromptVars {
+  task: string
+  tools: string
+  result: string
+  agents: string
+  diff: string
+  verification: string
+  children: string
+  taskType: string
+  evidence: string
+}
+
+const PROJECT_PROMPT_FILE = join(".opencode", "reflection-prompt.md")
+
+const PROMPT_PRESETS: Record<PromptPreset, { title: string; template: string }> = {
+  "release-manager": {
+    title: "Release Manager Protocol",
+    template: `You are a release manager with risk ownership. Evaluate whether the task is complete and ready for release.
+
+## Project Instructions
+{{agents}}
+
+## Original Task
+{{task}}
+
+## Tools Used
+{{tools}}
+
+## Agent's Response
+{{result}}
+
+## File Changes Since Task Started
+{{diff}}
+
+## Independent Verification (run by the reflection plugin, not the agent)
+{{verification}}
+
+## Subagent Sessions
+{{children}}
+
+## Task Type: {{taskType}}
+Evidence expected for this kind of task:
+{{evidence}}
+
+---
+
+## Evaluation Rules
+
+### Severity Levels
+- BLOCKER: security, auth, billing/subscription, data loss, E2E broken, prod health broken → complete MUST be false
+- HIGH: major functionality degraded, CI red without approved waiver
+- MEDIUM: partial degradation or uncertain coverage
+- LOW: cosmetic / non-impacting
+- NONE: no issues
+
+### Hard Requirements (must ALL be met for complete:true)
+1. All explicitly requested functionality implemented
+2. Tests run and pass (if tests were requested or exist)
+3. Build/compile succeeds (if applicable)
+4. No unhandled errors in output
+
+### Evidence Requirements
+Every claim needs evidence. Reject claims like "ready", "verified", "working", "fixed" without:
+- Actual command output showing success
+- Test name + result
+- File changes made
+
+### Flaky Test Protocol
+If a test is called "flaky" or "unrelated", require at least ONE of:
+- Rerun with pass (show output)
+- Quarantine/skip with tracking ticket
+- Replacement test validating same requirement
+- Stabilization fix applied
+Without mitigation → severity >= HIGH, complete: false
+
+### Waiver Protocol
+If a required gate failed but agent claims ready, response MUST include:
+- Explicit waiver statement ("shipping with known issue X")
+- Impact scope ("affects Y users/flows")
+- Mitigation/rollback plan
+- Follow-up tracking (ticket/issue reference)
+Without waiver details → complete: false
+
+### Temporal Consistency
+Reject if:
+- Readiness claimed before verification ran
+- Later output contradicts earlier "done" claim
+- Failures downgraded after-the-fact without new evidence`
+  },
+  prototype: {
+    title: "Prototype Review",
+    template: `You are reviewing work on a prototype. Speed matters more than polish. Evaluate whether the requested functionality was actually built and works.
+
+## Project Instructions
+{{agents}}
+
+## Original Task
+{{task}}
+
+## Tools Used
+{{tools}}
+
+## Agent's Response
+{{result}}
+
+## File Changes Since Task Started
+{{diff}}
+
+## Independent Verification (run by the reflection plugin, not the agent)
+{{verification}}
+
+## Subagent Sessions
+{{children}}
+
+## Task Type: {{taskType}}
+Evidence expected for this kind of task:
+{{evidence}}
+
+---
+
+## Evaluation Rules
+
+### Severity Levels
+- BLOCKER: requested feature missing entirely, data loss, or the code does not run → complete MUST be false
+- HIGH: core flow of the requested feature is broken
+- MEDIUM: edge cases unhandled that the task explicitly mentioned
+- LOW: missing tests, docs, or polish
+- NONE: no issues
+
+### Requirements for complete:true
+1. The requested functionality exists and was exercised at least once (run, curl, script output)
+2. No unhandled errors in the final output
+Tests, refactoring and documentation are optional unless the task asked for them.`
+  },
+  docs: {
+    title: "Documentation Review",
+    template: `You are a technical writer reviewing a documentation change. Evaluate whether the requested documentation is complete and accurate.
+
+## Project Instructions
+{{agents}}
+
+## Original Task
+{{task}}
+
+## Tools Used
+{{tools}}
+
+## Agent's Response
+{{result}}
+
+## File Changes Since Task Started
+{{diff}}
+
+## Independent Verification (run by the reflection plugin, not the agent)
+{{verification}}
+
+## Subagent Sessions
+{{children}}
+
+## Task Type: {{taskType}}
+Evidence expected for this kind of task:
+{{evidence}}
+
+---
+
+## Evaluation Rules
+
+### Severity Levels
+- BLOCKER: documentation states something false that would mislead users (wrong commands, wrong APIs) → complete MUST be false
+- HIGH: requested sections or pages missing
+- MEDIUM: examples untested or inconsistent with the code
+- LOW: typos, formatting, style
+- NONE: no issues
+
+### Requirements for complete:true
+1. Every requested page/section was written or updated (the files were actually edited)
+2. Commands, options and code samples match the current code
+3. Links and references point to things that exist
+Tests and builds are not required unless the docs are built or generated.`
+  },
+  question: {
+    title: "Answer Review",
+    template: `You are reviewing the answer to a question or research request. No code change was asked for, so don't require tests, builds or file changes. Evaluate whether the question was actually answered.
+
+## Project Instructions
+{{agents}}
+
+## Original Task
+{{task}}
+
+## Tools Used
+{{tools}}
+
+## Agent's Response
+{{result}}
+
+## File Changes Since Task Started
+{{diff}}
+
+## Independent Verification (run by the reflection plugin, not the agent)
+{{verification}}
+
+## Subagent Sessions
+{{children}}
+
+## Task Type: {{taskType}}
+Evidence expected for this kind of task:
+{{evidence}}
+
+---
+
+## Evaluation Rules
+
+### Severity Levels
+- BLOCKER: the answer is wrong about the code in a way that would mislead the user → complete MUST be false
+- HIGH: the question wasn't answered, or only part of a multi-part question was
+- MEDIUM: claims about the code aren't backed by files read or commands run
+- LOW: unclear or padded answer
+- NONE: no issues
+
+### Requirements for complete:true
+1. Every part of the question is answered directly
+2. Claims about this codebase are backed by files the agent read or commands it ran (see Tools Used)
+3. No files were modified unless the user asked for it`
+  }
+}
+
+// ==================== TASK TYPE ====================
+
+type TaskType = "question" | "code-change" | "refactor" | "ops" | "docs"
+
+// Evidence the judge should look for, by task type - rendered into {{evidence}}
+const TASK_TYPE_EVIDENCE: Record<TaskType, string[]> = {
+  question: [
+    "A direct answer to what was asked",
+    "The files, docs or command output the answer is based on"
+  ],
+  "code-change": [
+    "File changes implementing the request",
+    "Test and build output showing success",
+    "The new behavior exercised at least once"
+  ],
+  refactor: [
+    "File changes limited to the restructuring asked for",
+    "Tests passing after the change, showing behavior is unchanged",
+    "No new features or unrelated edits"
+  ],
+  ops: [
+    "The commands that were run and their output",
+    "A health or status check after the change",
+    "A rollback path for anything that failed or is risky"
+  ],
+  docs: [
+    "The documentation files actually edited",
+    "Commands, options and examples that match the current code"
+  ]
+}
+
+// Built-in rubric per task type; other types use the configured promptPreset
+const TASK_TYPE_PRESETS: Partial<Record<TaskType, PromptPreset>> = {
+  question: "question",
+  docs: "docs"
+}
+
+// Tools that may change files or systems - bash counts too, since sed -i, installs and migrations run through it
+const EDIT_TOOLS = ["edit", "write", "patch", "multiedit", "bash"]
+
+// Clauses that ask rather than instruct: "what ...", "explain ...", "tell me ..."
+const ASKING_START = /^(what|why|how|where|when|which|who|whose|explain|describe|summari[sz]e|clarify|investigate|research|look into|find out|tell me|show me)\b/i
+// Only a question when the sentence ends in "?" - "do the migration" is an instruction
+const AUX_START = /^(is|are|was|were|am|does|do|did|has|have|can|could|should|would|will)\b/i
+// "Can you run the migration?" asks for work; "can you explain ..." asks for an answer
+const POLITE_REQUEST = /^(can|could|would|will)\s+you\s+(please\s+)?(?!(explain|tell|describe|summari[sz]e|clarify|show)\b)/i
+
+// Sentences, then their "..., then ..." / "... and ..." parts - each may ask or instruct on its own
+const SENTENCE = /[^.!?;\n]+[.!?;]*/g
+const CLAUSE_SEPARATOR = /,|\s+(?:and|then|also)\s+/i
+
+const OPS_PATTERN = /\b(deploy\w*|release|rollout|roll back|rollback|provision\w*|terraform|kubernetes|k8s|helm|docker|ci pipeline|restart the|production)\b/i
+// "document" only as the verb - "add a document upload endpoint" is code
+const DOCS_PATTERN = /\b(readme|docs|documentation|changelog|docstrings?|jsdoc|tutorial)\b|^(please\s+)?document\b/i
+const REFACTOR_PATTERN = /\b(refactor\w*|clean ?up|rename|restructur\w*|reorganiz\w*|simplif\w*|deduplicate)\b/i
+
+/**
+ * Split a request into clauses, marking the ones that ask a question. Anything that isn't clearly
+ * interrogative counts as an instruction - a question label relaxes the rubric, so doubt goes the other way.
+ */
+function splitClauses(text: string): { text: string; asks: boolean }[] {
+  return (text.match(SENTENCE) || []).flatMap(sentence => {
+    const endsInQuestion = sentence.trim().endsWith("?")
+    const parts = sentence.split(CLAUSE_SEPARATOR).map(part => part.trim().replace(/[.!?;]+$/, "")).filter(Boolean)
+    return parts.map(part => {
+      const clause = part.replace(/^please\s+/i, "")
+      const asks = !POLITE_REQUEST.test(clause) &&
+        (ASKING_START.test(clause) || (endsInQuestion && (AUX_START.test(clause) || parts.length === 1)))
+      return { text: clause, asks }
+    })
+  })
+}
+
+/**
+ * Label a task from the latest human message. A question needs every clause to ask something and no changes
+ * since the message - "why does X fail? Please patch it" or a fix made anyway is a code change. Docs only when
+ * every instruction is a docs change - "update the README and fix the parser" is a code change.
+ */
+function classifyTask(request: string, changed: boolean): TaskType {
+  const text = request.trim()
+  const clauses = splitClauses(text)
+  const instructions = clauses.filter(clause => !clause.asks).map(clause => clause.text)
+  if (!changed && clauses.length > 0 && instructions.length === 0) return "question"
+  if (OPS_PATTERN.test(text)) return "ops"
+  if (DOCS_PATTERN.test(text) && instructions.every(clause => DOCS_PATTERN.test(clause))) return "docs"
+  if (REFACTOR_PATTERN.test(text)) return "refactor"
+  return "code-change"
+}
+
+// Appended to every rubric so custom templates can't drop the verdict contract
+const VERDICT_FORMAT = `Reply with JSON only (no other text):
+{
+  "complete": true/false,
+  "severity": "NONE|LOW|MEDIUM|HIGH|BLOCKER",
+  "feedback": "brief explanation of verdict",
+  "missing": ["list of missing required steps or evidence"],
+  "next_actions": ["concrete commands or checks to run"]
+}`
+
+/**
+ * Replace {{placeholder}} tokens; unknown placeholders are left untouched
+ */
+function renderTemplate(template: string, vars: PromptVars): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(vars, name) ? vars[name as keyof PromptVars] : match
+  )
+}
+
+function buildJudgePrompt(rubric: { title: string; template: string }, vars: PromptVars): string {
+  return `TASK VERIFICATION - ${rubric.title}
+
+${renderTemplate(rubric.template, vars).trim()}
+
+---
+
+${VERDICT_FORMAT}`
+}
+
+// ==================== VERDICT ====================
+
+type Severity = "NONE" | "LOW" | "MEDIUM" | "HIGH" | "BLOCKER"
+
+const SEVERITIES: Severity[] = ["NONE", "LOW", "MEDIUM", "HIGH", "BLOCKER"]
+
+interface Verdict {
+  complete: boolean
+  severity: Severity
+  feedback: string
+  missing: string[]
+  next_actions: string[]
+}
+
+/**
+ * Find JSON object candidates in a judge reply: fenced code blocks first,
+ * then every balanced top-level {...} in the text (string-aware).
+ */
+function extractJsonCandidates(text: string): string[] {
+  const candidates: string[] = []
+  for (const match of text.matchAll(/```(?:json)?\s*\n?([\s\S]*?)```/g)) {
+    candidates.push(match[1].trim())
+  }
+  let depth = 0
+  let start = -1
+  let inString = false
+  let escaped = false
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (inString) {
+      if (escaped) escaped = false
+      else if (ch === "\\") escaped = true
+      else if (ch === '"') inString = false
+      continue
+    }
+    if (ch === '"' && depth > 0) inString = true
+    else if (ch === "{") {
+      if (depth === 0) start = i
+      depth++
+    } else if (ch === "}" && depth > 0) {
+      depth--
+      if (depth === 0) candidates.push(text.slice(start, i + 1))
+    }
+  }
+  return candidates
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === "string")
+}
+
+/**
+ * Validate a parsed object against the verdict schema
+ */
+function validateVerdict(raw: unknown): { verdict?: Verdict; error?: string } {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { error: "verdict must be a JSON object" }
+  }
+  const obj = raw as Record<string, unknown>
+  if (typeof obj.complete !== "boolean") {
+    return { error: '"complete" must be true or false' }
+  }
+  const severity = typeof obj.severity === "string" ? obj.severity.trim().toUpperCase() : obj.severity
+  if (!SEVERITIES.includes(severity as Severity)) {
+    return { error: `"severity" must be one of ${SEVERITIES.join(", ")}` }
+  }
+  if (typeof obj.feedback !== "string") {
+    return { error: '"feedback" must be a string' }
+  }
+  for (const key of ["missing", "next_actions"]) {
+    if (obj[key] !== undefined && !isStringArray(obj[key])) {
+      return { error: `"${key}" must be an array of strings` }
+    }
+  }
+  return {
+    verdict: {
+      complete: obj.complete,
+      severity: severity as Severity,
+      feedback: obj.feedback,
+      missing: (obj.missing as string[] | undefined) || [],
+      next_actions: (obj.next_actions as string[] | undefined) || []
+    }
+  }
+}
+
+/**
+ * Parse a judge reply into a verdict, returning the first candidate that validates
+ */
+function parseVerdict(response: string): { verdict?: Verdict; error?: string } {
+  const candidates = extractJsonCandidates(response)
+  if (candidates.length === 0) return { error: "no JSON object found in reply" }
+  let error = "no valid verdict found"
+  for (const candidate of candidates) {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(candidate)
+    } catch (e) {
+      error = `invalid JSON (${e instanceof Error ? e.message : e})`
+      continue
+    }
+    const result = validateVerdict(parsed)
+    if (result.verdict) return result
+    error = result.error || error
+  }
+  return { error }
+}
+
+// ==================== JUDGE PANEL ====================
+
+type PanelStrategy = "majority" | "unanimous" | "worst-severity"
+
+const PANEL_STRATEGIES: PanelStrategy[] = ["majority", "unanimous", "worst-severity"]
+
+// One juror's vote as recorded in .reflection/
+interface PanelVote {
+  model?: string
+  verdict: Verdict | null
+  error?: string
+}
+
+function severityRank(severity: Severity): number {
+  return SEVERITIES.indexOf(severity)
+}
+
+function worstSeverity(verdicts: Verdict[]): Severity {
+  return verdicts.reduce<Severity>((worst, v) => severityRank(v.severity) > severityRank(worst) ? v.severity : worst, "NONE")
+}
+
+function unique(items: string[]): string[] {
+  return [...new Set(items.map(item => item.trim()).filter(Boolean))]
+}
+
+/**
+ * Combine juror verdicts into one.
+ *   majority       - complete if more than half say complete (ties are incomplete)
+ *   unanimous      - complete only if every juror says complete
+ *   worst-severity - the most severe verdict decides (any incomplete at that severity wins)
+ * Severity, feedback, missing and next_actions come from the jurors on the winning side.
+ */
+function aggregateVerdicts(verdicts: Verdict[], strategy: PanelStrategy): Verdict {
+  if (verdicts.length === 1) return verdicts[0]
+
+  let complete: boolean
+  if (strategy === "unanimous") {
+    complete = verdicts.every(v => v.complete)
+  } else if (strategy === "worst-severity") {
+    const worst = worstSeverity(verdicts)
+    complete = verdicts.filter(v => v.severity === worst).every(v => v.complete)
+  } else {
+    complete = verdicts.filter(v => v.complete).length * 2 > verdicts.length
+  }
+
+  const side = verdicts.filter(v => v.complete === complete)
+  const votes = `${verdicts.filter(v => v.complete).length}/${verdicts.length} judges voted complete (${strategy})`
+  return {
+    complete,
+    severity: strategy === "majority" ? worstSeverity(side) : worstSeverity(verdicts),
+    feedback: [votes, ...unique(side.map(v => v.feedback))].join("\n"),
+    missing: unique(side.flatMap(v => v.missing)),
+    next_actions: unique(side.flatMap(v => v.next_actions))
+  }
+}
+
+// ==================== TRANSCRIPT ====================
+
+// A message as returned by client.session.messages
+type SessionMessage = { info: Message; parts: Part[] }
+
+// Rough token estimate - good enough for budgeting prompt sections
+const CHARS_PER_TOKEN = 4
+
+// Share of the transcript budget reserved for the task context; tool evidence gets the rest
+const TASK_BUDGET_SHARE = 0.25
+
+/**
+ * Keep the start and end of long text (commands print errors and summaries at the end)
+ */
+function headTail(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text
+  const head = Math.floor(maxChars * 0.6)
+  const tail = maxChars - head
+  return `${text.slice(0, head)}\n... [${text.length - maxChars} chars omitted] ...\n${text.slice(text.length - tail)}`
+}
+
+/**
+ * Render one tool call with its input, status, exit code and (summarized) output
+ */
+function formatToolCall(part: ToolPart, maxOutputChars: number): string {
+  const state = part.state
+  let input = ""
+  try {
+    input = JSON.stringify(state.input || {})
+  } catch {}
+  const exit = "metadata" in state ? state.metadata?.exit : undefined
+  const status = [state.status || "unknown", typeof exit === "number" ? `exit ${exit}` : ""].filter(Boolean).join(", ")
+  const lines = [`### ${part.tool} (${status})`, `Input: ${headTail(input, 300)}`]
+  if (state.status === "error" && state.error) {
+    lines.push(`Error:\n${headTail(String(state.error), maxOutputChars)}`)
+  } else if (state.status === "completed" && state.output.trim()) {
+    lines.push(`Output:\n${headTail(state.output.trim(), maxOutputChars)}`)
+  }
+  return lines.join("\n")
+}
+
+/**
+ * Keep the newest entries that fit in maxChars, in chronological order
+ */
+function fitNewest(entries: string[], maxChars: number, label: string): string {
+  if (maxChars <= 0) return entries.length ? `(${entries.length} earlier ${label} omitted)` : ""
+  const kept: string[] = []
+  let used = 0
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const size = entries[i].length + 2
+    if (used + size > maxChars && kept.length > 0) break
+    kept.unshift(used + size > maxChars ? headTail(entries[i], maxChars) : entries[i])
+    used += size
+  }
+  const omitted = entries.length - kept.length
+  return [omitted > 0 ? `(${omitted} earlier ${label} omitted)` : "", ...kept].filter(Boolean).join("\n\n")
+}
+
+// ==================== GIT DIFF ====================
+
+// Working tree state when a task started - diffs are computed against it
+interface GitBaseline {
+  commit: string          // HEAD, or a `git stash create` commit capturing uncommitted changes
+  untracked: string[]     // Untracked files that already existed
+}
+
+interface DiffSummary {
+  baseline: string
+  stat: string
+  diff: string
+  untracked: string[]     // Untracked files created since the baseline
+}
+
+async function git(directory: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync("git", args, {
+    cwd: directory,
+    timeout: GIT_TIMEOUT,
+    maxBuffer: 16 * 1024 * 1024
+  })
+  return stdout
+}
+
+async function listUntracked(directory: string): Promise<string[]> {
+  const out = await git(directory, ["ls-files", "--others", "--exclude-standard"])
+  return out.split("\n").filter(Boolean)
+}
+
+/**
+ * Snapshot the working tree without touching it. Returns null outside a git repo.
+ */
+async function captureGitBaseline(directory: string): Promise<GitBaseline | null> {
+  try {
+    const stash = (await git(directory, ["stash", "create"])).trim()
+    const commit = stash || (await git(directory, ["rev-parse", "HEAD"])).trim()
+    return { commit, untracked: await listUntracked(directory) }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Diff the working tree against the baseline, truncated to maxChars
+ */
+async function computeDiff(directory: string, baseline: GitBaseline, maxChars: number): Promise<DiffSummary | null> {
+  try {
+    const [stat, diff, untracked] = await Promise.all([
+      git(directory, ["diff", "--stat", baseline.commit]),
+      git(directory, ["diff", baseline.commit]),
+      listUntracked(directory)
+    ])
+    const existing = new Set(baseline.untracked)
+    return {
+      baseline: baseline.commit,
+      stat: stat.trimEnd(),
+      diff: headTail(diff.trim(), maxChars),
+      untracked: untracked.filter(file => !existing.has(file))
+    }
+  } catch {
+    return null
+  }
+}
+
+// Anything changed in the working tree since the baseline
+function hasChanges(summary: DiffSummary | null | undefined): boolean {
+  return !!summary && (!!summary.diff || summary.untracked.length > 0)
+}
+
+function formatDiff(summary: DiffSummary | null): string {
+  if (!summary) return "(not available - not a git repository)"
+  if (!summary.diff && summary.untracked.length === 0) return "(no file changes)"
+  const sections: string[] = []
+  if (summary.stat) sections.push(summary.stat)
+  if (summary.untracked.length) sections.push(`New untracked files:\n${summary.untracked.map(f => `- ${f}`).join("\n")}`)
+  if (summary.diff) sections.push("```diff\n" + summary.diff + "\n```")
+  return sections.join("\n\n")
+}
+
+// ==================== VERIFICATION ====================
+
+// As written in reflection.json - a plain string is a required command with the default timeout
+interface VerifyCommandConfig {
+  command: string
+  timeout?: number        // ms (default: 5 minutes)
+  required?: boolean      // A failing required command marks the task incomplete without asking the judge (default: true)
+}
+
+interface VerificationResult {
+  command: string
+  required: boolean
+  exitCode: number | null
+  timedOut: boolean
+  durationMs: number
+  output: string
+}
+
+function normalizeVerifyCommand(entry: string | VerifyCommandConfig): Required<VerifyCommandConfig> {
+  const cmd = typeof entry === "string" ? { command: entry } : entry
+  return { command: cmd.command, timeout: cmd.timeout ?? VERIFY_TIMEOUT, required: cmd.required ?? true }
+}
+
+function verificationPassed(result: VerificationResult): boolean {
+  return result.exitCode === 0 && !result.timedOut
+}
+
+/**
+ * Run a verification command through the shell in the project directory. The command gets its own
+ * process group, so a timeout or cancelling the reflection kills everything it started - not just the shell.
+ * Never rejects - failures are reported through exitCode/timedOut.
+ */
+function runVerifyCommand(
+  directory: string,
+  entry: string | VerifyCommandConfig,
+  maxOutputChars: number,
+  abort?: AbortSignal
+): Promise<VerificationResult> {
+  const { command, timeout, required } = normalizeVerifyCommand(entry)
+  const start = Date.now()
+  return new Promise(resolve => {
+    let stdout = ""
+    let stderr = ""
+    let timedOut = false
+    let forceKill: ReturnType<typeof setTimeout> | undefined
+    const child = spawn(command, { cwd: directory, shell: true, detached: true, stdio: ["ignore", "pipe", "pipe"] })
+    child.stdout.on("data", chunk => { stdout = (stdout + chunk).slice(-VERIFY_MAX_OUTPUT) })
+    child.stderr.on("data", chunk => { stderr = (stderr + chunk).slice(-VERIFY_MAX_OUTPUT) })
+
+    // A negative pid signals the whole group
+    const killGroup = (signal: NodeJS.Signals) => {
+      try {
+        if (child.pid) process.kill(-child.pid, signal)
+      } catch {}
+    }
+    const stop = () => {
+      killGroup("SIGTERM")
+      forceKill ??= setTimeout(() => killGroup("SIGKILL"), VERIFY_KILL_GRACE)
+    }
+    const timer = setTimeout(() => {
+      timedOut = true
+      stop()
+    }, timeout)
+    abort?.addEventListener("abort", stop)
+    if (abort?.aborted) stop()
+
+    const finish = (exitCode: number | null, message: string) => {
+      clearTimeout(timer)
+      clearTimeout(forceKill)
+      abort?.removeEventListener("abort", stop)
+      const output = [stdout, stderr].filter(Boolean).join("\n").trim()
+      resolve({
+        command,
+        required,
+        exitCode,
+        timedOut,
+        durationMs: Date.now() - start,
+        output: headTail(output || message, maxOutputChars)
+      })
+    }
+    child.on("error", error => finish(null, error.message))
+    child.on("close", code => finish(code, code === 0 ? "" : `Command failed: ${command}`))
+  })
+}
+
+function formatVerification(results: VerificationResult[]): string {
+  if (results.length === 0) return "(no verification commands configured)"
+  return results.map(r => {
+    const status = r.timedOut ? "TIMED OUT" : r.exitCode === 0 ? "PASSED" : `FAILED (exit ${r.exitCode ?? "?"})`
+    return `### \`${r.command}\` - ${status} in ${Math.round(r.durationMs / 1000)}s${r.required ? "" : " (advisory)"}
+${r.output ? "```\n" + r.output + "\n```" : "(no output)"}`
+  }).join("\n\n")
+}
+
+/**
+ * Verdict for failed required commands - no judge needed when the gate itself is red
+ */
+function verificationVerdict(failures: VerificationResult[]): Verdict {
+  return {
+    complete: false,
+    severity: "HIGH",
+    feedback: `Independent verification failed:\n\n${formatVerification(failures)}`,
+    missing: failures.map(r => `\`${r.command}\` must pass`),
+    next_actions: failures.map(r => `Run \`${r.command}\` and fix the failures`)
+  }
+}
+
+// ==================== CHILD SESSIONS ====================
+
+// Subagent sessions spawned (e.g. by the task tool) while the parent task ran
+interface ChildSummary {
+  id: string
+  title: string
+  result: string            // Child's final response, head/tail summarized
+  verdict: Verdict | null   // Child's latest verdict, when children are judged
+}
+
+// Children's incomplete verdicts at or above this severity keep the parent incomplete
+const CHILD_BLOCKING_SEVERITY: Severity = "HIGH"
+
+function formatChildren(children: ChildSummary[]): string {
+  if (children.length === 0) return "(none)"
+  return children.map(child => {
+    const verdict = child.verdict
+      ? `Verdict: ${child.verdict.complete ? "complete" : "incomplete"} [${child.verdict.severity}] - ${child.verdict.feedback}`
+      : "Verdict: not judged"
+    return `### ${child.title}\n${verdict}\n${child.result || "(no response)"}`
+  }).join("\n\n")
+}
+
+/**
+ * The parent can't be complete while a subagent's work is judged incomplete at CHILD_BLOCKING_SEVERITY or worse
+ */
+function rollUpChildren(verdict: Verdict, children: ChildSummary[]): Verdict {
+  const blocking = children.filter(c =>
+    c.verdict && !c.verdict.complete && severityRank(c.verdict.severity) >= severityRank(CHILD_BLOCKING_SEVERITY)
+  )
+  if (!verdict.complete || blocking.length === 0) return verdict
+  return {
+    complete: false,
+    severity: worstSeverity(blocking.map(c => c.verdict!)),
+    feedback: `${verdict.feedback}\n\nSubagent work is unfinished: ${blocking.map(c => c.title).join(", ")}.`.trim(),
+    missing: unique([...verdict.missing, ...blocking.flatMap(c => c.verdict!.missing.map(m => `[${c.title}] ${m}`))]),
+    next_actions: unique([...verdict.next_actions, ...blocking.flatMap(c => c.verdict!.next_actions)])
+  }
+}
+
+// ==================== FEEDBACK ====================
+
+// How much of the verdict each feedback attempt passes back to the agent
+type FeedbackStrategy = "next-actions" | "full" | "status-report"
+const FEEDBACK_STRATEGIES: FeedbackStrategy[] = ["next-actions", "full", "status-report"]
+// The final attempt always gets a status report - these cover the attempts before it
+const DEFAULT_FEEDBACK_STRATEGIES: FeedbackStrategy[] = ["next-actions", "full"]
+
+function bulletList(items: string[]): string {
+  return items.map(item => `- ${item}`).join("\n")
+}
 
-// No logging to avoid breaking CLI output
+/**
+ * Strategy for a 1-based attempt: a status report on the final attempt, otherwise the table's
+ * entry - its last entry covers every earlier attempt past the end of the table
+ */
+function strategyForAttempt(attempt: number, maxAttempts: number, strategies: FeedbackStrategy[]): FeedbackStrategy {
+  if (attempt >= maxAttempts) return "status-report"
+  return strategies[Math.min(attempt, strategies.length) - 1] || "full"
+}
+
+/**
+ * Build the feedback message for an incomplete verdict:
+ * - next-actions: just what to do next, so the agent stays focused
+ * - full: the judge's reasoning, missing evidence and next actions
+ * - status-report: stop and honestly report what is done and what remains
+ */
+function formatFeedback(verdict: Verdict, strategy: FeedbackStrategy, attempt: number, maxAttempts: number): string {
+  const header = `## Reflection: Task Incomplete (${attempt}/${maxAttempts}) [${verdict.severity}]`
+  const reasoning = verdict.feedback || "Please review and complete the task."
+  const missing = verdict.missing.length ? `\n\n### Missing\n${bulletList(verdict.missing)}` : ""
+  const nextActions = verdict.next_actions.length ? `\n\n### Next Actions\n${bulletList(verdict.next_actions)}` : ""
+
+  switch (strategy) {
+    case "next-actions":
+      return verdict.next_actions.length
+        ? `${header}\n\n### Next Actions\n${bulletList(verdict.next_actions)}\n\nPlease do the above and continue.`
+        : `${header}\n\n${reasoning}\n\nPlease address the above and continue.`
+    case "status-report":
+      return `${header}
+
+${attempt >= maxAttempts ? "This is the last reflection attempt. " : ""}Finish anything you can complete quickly, then write an honest status report:
+- What is done, with the evidence (commands run and their results)
+- What remains and why
+- Anything blocking you that needs the user
+
+Do not claim work is complete unless you verified it.
+
+### Judge's Assessment
+${reasoning}${missing}${nextActions}`
+    default:
+      return `${header}\n\n${reasoning}${missing}${nextActions}\n\nPlease address the above and continue.`
+  }
+}
+
+// ==================== SEVERITY POLICY ====================
+
+// What happens after a verdict of a given severity:
+// - accept: the task is done
+// - warn: the task is done, with a warning toast about what's still open
+// - feedback: send feedback to the agent (held for approval when feedbackMode is "ask")
+// - ask: always hold feedback for /reflection send or dismiss
+type SeverityAction = "accept" | "warn" | "feedback" | "ask"
+const SEVERITY_ACTIONS: SeverityAction[] = ["accept", "warn", "feedback", "ask"]
+
+// As written in reflection.json - a plain string is the action with the global maxAttempts
+interface SeverityRuleConfig {
+  action: SeverityAction
+  maxAttempts?: number    // Feedback attempts for a task judged at this severity (default: maxAttempts)
+}
+
+type SeverityPolicy = Partial<Record<Severity, SeverityAction | SeverityRuleConfig>>
+
+// Applies unless the configured policy has its own rule for that severity
+const DEFAULT_SEVERITY_POLICY: SeverityPolicy = { BLOCKER: "feedback" }
+
+/**
+ * Rule for a verdict. Severities without a rule follow the judge: complete -> accept, incomplete -> feedback
+ */
+function severityRule(verdict: Verdict, policy: SeverityPolicy, maxAttempts: number): Required<SeverityRuleConfig> {
+  const entry = policy[verdict.severity] ?? DEFAULT_SEVERITY_POLICY[verdict.severity]
+  const rule = typeof entry === "string" ? { action: entry } : entry
+  return {
+    action: rule?.action ?? (verdict.complete ? "accept" : "feedback"),
+    maxAttempts: rule?.maxAttempts ?? maxAttempts
+  }
+}
+
+// The most attempts any severity allows - below this a task is still worth judging
+function attemptLimit(policy: SeverityPolicy, maxAttempts: number): number {
+  const limits = Object.values(policy).map(entry => typeof entry === "object" ? entry.maxAttempts ?? 0 : 0)
+  return Math.max(maxAttempts, ...limits)
+}
+
+// ==================== LOGGING ====================
+
+type LogLevel = "debug" | "info" | "warn" | "error"
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"]
+const LOG_FILE = "reflection.log"
+
+/**
+ * One JSONL line. `runId` correlates every entry written by a single reflection run.
+ */
+function formatLogEntry(level: LogLevel, event: string, fields: Record<string, unknown>): string {
+  return JSON.stringify({ time: new Date().toISOString(), level, event, ...fields }) + "\n"
+}
+
+// Logger bound to one reflection run
+type RunLog = (level: LogLevel, event: string, fields?: Record<string, unknown>) => Promise<void>
+
+function errorFields(error: unknown): Record<string, unknown> {
+  if (error instanceof Error) return { error: error.message, stack: error.stack }
+  return { error: String(error) }
+}
+
+// ==================== CONFIG ====================
+
+type FeedbackMode = "auto" | "ask"
+const FEEDBACK_MODES: FeedbackMode[] = ["auto", "ask"]
+
+interface ReflectionConfig {
+  enabled: boolean
+  maxAttempts: number               // Reflection attempts per task before giving up
+  judgeResponseTimeout: number      // ms to wait for the judge's verdict
+  pollInterval: number              // ms between fallback checks when no judge event arrives
+  agentsMaxChars: number            // AGENTS.md chars included in the judge prompt
+  resultMaxChars: number            // Agent response chars included in the judge prompt
+  promptPreset: PromptPreset        // Built-in judge rubric
+  classifyTasks: boolean            // Pick the rubric and evidence requirements from the task type
+  promptFile?: string               // Custom rubric, relative to the project (default: .opencode/reflection-prompt.md)
+  judgeModel?: string               // "provider/model" for the judge session (default: user's default model)
+  judgeAgent?: string               // Agent for the judge session
+  judgeFallbackModels: string[]     // Tried in order when the judge model errors
+  panelSize: number                 // Number of judges voting on each verdict (1 = single judge)
+  panelModels: string[]             // Model per juror; jurors without an entry use judgeModel
+  panelStrategy: PanelStrategy      // How juror verdicts are combined
+  transcriptMaxTokens: number       // Budget for task context + tool evidence in the judge prompt
+  toolOutputMaxChars: number        // Per-tool output kept (head + tail) before summarizing
+  includeDiff: boolean              // Attach the git diff since the task started
+  diffMaxChars: number              // Diff chars included in the judge prompt
+  verifyCommands: (string | VerifyCommandConfig)[]  // Commands the plugin runs itself before judging
+  judgeChildSessions: boolean       // Also judge subagent sessions (their verdicts roll up into the parent)
+  feedbackStrategies: FeedbackStrategy[]  // Feedback strategy per attempt before the last; the last entry repeats
+  feedbackMode: FeedbackMode        // "auto" sends feedback immediately, "ask" waits for /reflection send
+  postReport: boolean               // Post the max-attempts report into the session (never prompts the agent)
+  budgetUsd?: number                // Stop reflecting once judge spend for the project reaches this
+  cacheVerdicts: boolean            // Reuse the verdict when task, result and tools are unchanged
+  severityPolicy: SeverityPolicy    // Action (and optional maxAttempts) per verdict severity
+  askTimeout: number                // ms before held feedback is sent anyway (0 = wait for the user)
+  settleDelay: number               // ms a session must stay idle before reflection starts (0 = immediately)
+  maxConcurrent: number             // Reflections running at once across all sessions
+  logLevel: LogLevel | "off"        // Minimum level written to .reflection/reflection.log
+  toastOnError: boolean             // Show a toast when reflection itself fails
+}
+
+const DEFAULT_CONFIG: ReflectionConfig = {
+  enabled: true,
+  maxAttempts: MAX_ATTEMPTS,
+  judgeResponseTimeout: JUDGE_RESPONSE_TIMEOUT,
+  pollInterval: POLL_INTERVAL,
+  agentsMaxChars: AGENTS_MAX_CHARS,
+  resultMaxChars: RESULT_MAX_CHARS,
+  promptPreset: "release-manager",
+  classifyTasks: true,
+  judgeFallbackModels: [],
+  panelSize: 1,
+  panelModels: [],
+  panelStrategy: "majority",
+  transcriptMaxTokens: TRANSCRIPT_MAX_TOKENS,
+  toolOutputMaxChars: TOOL_OUTPUT_MAX_CHARS,
+  includeDiff: true,
+  diffMaxChars: DIFF_MAX_CHARS,
+  verifyCommands: [],
+  judgeChildSessions: false,
+  feedbackStrategies: DEFAULT_FEEDBACK_STRATEGIES,
+  feedbackMode: "auto",
+  postReport: true,
+  cacheVerdicts: true,
+  severityPolicy: {},
+  askTimeout: 0,
+  settleDelay: SETTLE_DELAY,
+  maxConcurrent: MAX_CONCURRENT,
+  logLevel: "info",
+  toastOnError: false
+}
+
+// Returns an error message, or null if the value is valid
+type Validator = (value: unknown) => string | null
+
+const isBoolean: Validator = v => typeof v === "boolean" ? null : "must be a boolean"
+const isPositiveInt: Validator = v =>
+  typeof v === "number" && Number.isInteger(v) && v > 0 ? null : "must be a positive integer"
+const isNonNegativeInt: Validator = v =>
+  typeof v === "number" && Number.isInteger(v) && v >= 0 ? null : "must be a non-negative integer"
+const isPositiveNumber: Validator = v =>
+  typeof v === "number" && Number.isFinite(v) && v > 0 ? null : "must be a positive number"
+const isString: Validator = v => typeof v === "string" && v.length > 0 ? null : "must be a non-empty string"
+const oneOf = (values: readonly string[]): Validator => v =>
+  typeof v === "string" && values.includes(v) ? null : `must be one of: ${values.join(", ")}`
+const isModelId: Validator = v =>
+  typeof v === "string" && /^[^/\s]+\/\S+$/.test(v) ? null : 'must be a "provider/model" string'
+const isModelList: Validator = v =>
+  Array.isArray(v) && v.every(item => isModelId(item) === null) ? null : 'must be an array of "provider/model" strings'
+const isStrategyList: Validator = v =>
+  Array.isArray(v) && v.length > 0 && v.every(item => FEEDBACK_STRATEGIES.includes(item))
+    ? null
+    : `must be a non-empty array of: ${FEEDBACK_STRATEGIES.join(", ")}`
+const isVerifyCommandList: Validator = v => {
+  const isCommand = (item: unknown) => typeof item === "string" && item.trim().length > 0
+  const valid = Array.isArray(v) && v.every(item =>
+    isCommand(item) || (isPlainObject(item) && isCommand(item.command) &&
+      (item.timeout === undefined || isPositiveInt(item.timeout) === null) &&
+      (item.required === undefined || typeof item.required === "boolean"))
+  )
+  return valid ? null : 'must be an array of commands or { "command", "timeout", "required" } objects'
+}
+const isSeverityPolicy: Validator = v => {
+  const isRule = (rule: unknown) => SEVERITY_ACTIONS.includes(rule as SeverityAction) ||
+    (isPlainObject(rule) && SEVERITY_ACTIONS.includes(rule.action) &&
+      (rule.maxAttempts === undefined || isPositiveInt(rule.maxAttempts) === null))
+  const valid = isPlainObject(v) && Object.entries(v).every(([severity, rule]) =>
+    SEVERITIES.includes(severity as Severity) && isRule(rule)
+  )
+  return valid ? null : `must map severities to one of ${SEVERITY_ACTIONS.join(", ")} or { "action", "maxAttempts" }`
+}
+
+const CONFIG_SCHEMA: { [K in keyof ReflectionConfig]: Validator } = {
+  enabled: isBoolean,
+  maxAttempts: isPositiveInt,
+  judgeResponseTimeout: isPositiveInt,
+  pollInterval: isPositiveInt,
+  agentsMaxChars: isPositiveInt,
+  resultMaxChars: isPositiveInt,
+  promptPreset: oneOf(Object.keys(PROMPT_PRESETS)),
+  classifyTasks: isBoolean,
+  promptFile: isString,
+  judgeModel: isModelId,
+  judgeAgent: isString,
+  judgeFallbackModels: isModelList,
+  panelSize: isPositiveInt,
+  panelModels: isModelList,
+  panelStrategy: oneOf(PANEL_STRATEGIES),
+  transcriptMaxTokens: isPositiveInt,
+  toolOutputMaxChars: isPositiveInt,
+  includeDiff: isBoolean,
+  diffMaxChars: isPositiveInt,
+  verifyCommands: isVerifyCommandList,
+  judgeChildSessions: isBoolean,
+  feedbackStrategies: isStrategyList,
+  feedbackMode: oneOf(FEEDBACK_MODES),
+  postReport: isBoolean,
+  budgetUsd: isPositiveNumber,
+  cacheVerdicts: isBoolean,
+  severityPolicy: isSeverityPolicy,
+  askTimeout: isNonNegativeInt,
+  settleDelay: isNonNegativeInt,
+  maxConcurrent: isPositiveInt,
+  logLevel: oneOf([...LOG_LEVELS, "off"]),
+  toastOnError: isBoolean
+}
+
+// Environment variables take precedence over both config files
+const CONFIG_ENV: { [K in keyof ReflectionConfig]?: string } = {
+  enabled: "REFLECTION_ENABLED",
+  maxAttempts: "REFLECTION_MAX_ATTEMPTS",
+  judgeResponseTimeout: "REFLECTION_JUDGE_TIMEOUT",
+  pollInterval: "REFLECTION_POLL_INTERVAL",
+  agentsMaxChars: "REFLECTION_AGENTS_MAX_CHARS",
+  resultMaxChars: "REFLECTION_RESULT_MAX_CHARS",
+  promptPreset: "REFLECTION_PROMPT_PRESET",
+  classifyTasks: "REFLECTION_CLASSIFY_TASKS",
+  judgeModel: "REFLECTION_JUDGE_MODEL",
+  judgeAgent: "REFLECTION_JUDGE_AGENT",
+  panelSize: "REFLECTION_PANEL_SIZE",
+  panelStrategy: "REFLECTION_PANEL_STRATEGY",
+  transcriptMaxTokens: "REFLECTION_TRANSCRIPT_MAX_TOKENS",
+  toolOutputMaxChars: "REFLECTION_TOOL_OUTPUT_MAX_CHARS",
+  includeDiff: "REFLECTION_INCLUDE_DIFF",
+  diffMaxChars: "REFLECTION_DIFF_MAX_CHARS",
+  judgeChildSessions: "REFLECTION_JUDGE_CHILD_SESSIONS",
+  feedbackMode: "REFLECTION_FEEDBACK_MODE",
+  postReport: "REFLECTION_POST_REPORT",
+  budgetUsd: "REFLECTION_BUDGET_USD",
+  cacheVerdicts: "REFLECTION_CACHE_VERDICTS",
+  askTimeout: "REFLECTION_ASK_TIMEOUT",
+  settleDelay: "REFLECTION_SETTLE_DELAY",
+  maxConcurrent: "REFLECTION_MAX_CONCURRENT",
+  logLevel: "REFLECTION_LOG_LEVEL",
+  toastOnError: "REFLECTION_TOAST_ON_ERROR"
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Validate a parsed config file against CONFIG_SCHEMA.
+ * Invalid or unknown keys are dropped and reported, valid keys are kept.
+ */
+function validateConfig(raw: unknown, source: string): { config: Partial<ReflectionConfig>; errors: string[] } {
+  const config: Record<string, unknown> = {}
+  const errors: string[] = []
+  if (!isPlainObject(raw)) {
+    return { config, errors: [`${source}: must be a JSON object`] }
+  }
+  for (const [key, value] of Object.entries(raw)) {
+    if (key === "$schema") continue
+    const validate = (CONFIG_SCHEMA as Record<string, Validator>)[key]
+    if (!validate) {
+      errors.push(`${source}: unknown option "${key}"`)
+      continue
+    }
+    const error = validate(value)
+    if (error) {
+      errors.push(`${source}: "${key}" ${error}`)
+      continue
+    }
+    config[key] = value
+  }
+  return { config: config as Partial<ReflectionConfig>, errors }
+}
+
+/**
+ * Merge config layers - plain objects merge recursively, everything else is replaced
+ */
+function mergeConfig<T extends Record<string, any>>(base: T, override: Partial<T>): T {
+  const merged: Record<string, any> = { ...base }
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key])
+      ? mergeConfig(merged[key], value)
+      : value
+  }
+  return merged as T
+}
+
+function parseEnvValue(key: keyof ReflectionConfig, value: string): unknown {
+  const validate = CONFIG_SCHEMA[key]
+  if (validate === isPositiveInt || validate === isNonNegativeInt || validate === isPositiveNumber) return Number(value)
+  if (validate !== isBoolean) return value
+  if (value === "1" || value === "true") return true
+  if (value === "0" || value === "false") return false
+  return value
+}
+
+function readEnvOverrides(): { config: Partial<ReflectionConfig>; errors: string[] } {
+  const raw: Record<string, unknown> = {}
+  for (const [key, name] of Object.entries(CONFIG_ENV) as [keyof ReflectionConfig, string][]) {
+    const value = process.env[name]
+    if (value === undefined || value === "") continue
+    raw[key] = parseEnvValue(key, value)
+  }
+  return validateConfig(raw, "env")
+}
+
+async function readConfigFile(path: string): Promise<{ config: Partial<ReflectionConfig>; errors: string[] }> {
+  let content: string
+  try {
+    content = await readFile(path, "utf-8")
+  } catch {
+    return { config: {}, errors: [] } // Missing file is fine
+  }
+  try {
+    return validateConfig(JSON.parse(content), path)
+  } catch (e) {
+    return { config: {}, errors: [`${path}: invalid JSON (${e instanceof Error ? e.message : e})`] }
+  }
+}
+
+/**
+ * Load config: defaults < global file < project file < env vars
+ */
+async function loadConfig(directory: string): Promise<{ config: ReflectionConfig; errors: string[] }> {
+  const layers = [
+    await readConfigFile(GLOBAL_CONFIG_PATH),
+    await readConfigFile(join(directory, ".opencode", "reflection.json")),
+    readEnvOverrides()
+  ]
+  let config = DEFAULT_CONFIG
+  const errors: string[] = []
+  for (const layer of layers) {
+    config = mergeConfig(config, layer.config)
+    errors.push(...layer.errors)
+  }
+  return { config, errors }
+}
+
+// Model/agent selection passed on every judge prompt
+interface JudgeModelOptions {
+  model?: { providerID: string; modelID: string }
+  agent?: string
+}
+
+/**
+ * Split "provider/model" into the shape promptAsync expects. Model IDs may contain slashes.
+ */
+function parseModelId(model: string): { providerID: string; modelID: string } {
+  const slash = model.indexOf("/")
+  return { providerID: model.slice(0, slash), modelID: model.slice(slash + 1) }
+}
+
+// ==================== USAGE ====================
+
+// Tokens and cost spent on judge sessions
+interface JudgeUsage {
+  cost: number        // USD, as reported for the judge's assistant messages
+  input: number
+  output: number
+  reasoning: number
+  cacheRead: number
+  cacheWrite: number
+  replies: number     // Judge assistant messages counted
+}
+
+function emptyUsage(): JudgeUsage {
+  return { cost: 0, input: 0, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, replies: 0 }
+}
+
+function addUsage(total: JudgeUsage | undefined, more: JudgeUsage): JudgeUsage {
+  const base = { ...emptyUsage(), ...total }
+  return {
+    cost: base.cost + more.cost,
+    input: base.input + more.input,
+    output: base.output + more.output,
+    reasoning: base.reasoning + more.reasoning,
+    cacheRead: base.cacheRead + more.cacheRead,
+    cacheWrite: base.cacheWrite + more.cacheWrite,
+    replies: base.replies + more.replies
+  }
+}
+
+function usageFromMessages(messages: SessionMessage[]): JudgeUsage {
+  let usage = emptyUsage()
+  for (const msg of messages) {
+    if (msg.info?.role !== "assistant") continue
+    const info = msg.info
+    usage = addUsage(usage, {
+      cost: Number(info.cost) || 0,
+      input: Number(info.tokens?.input) || 0,
+      output: Number(info.tokens?.output) || 0,
+      reasoning: Number(info.tokens?.reasoning) || 0,
+      cacheRead: Number(info.tokens?.cache?.read) || 0,
+      cacheWrite: Number(info.tokens?.cache?.write) || 0,
+      replies: 1
+    })
+  }
+  return usage
+}
+
+function formatUsage(usage: JudgeUsage | undefined): string {
+  if (!usage || usage.replies === 0) return "nothing spent yet"
+  const tokens = (n: number) => n.toLocaleString("en-US")
+  return `$${usage.cost.toFixed(4)} - ${tokens(usage.input)} input / ${tokens(usage.output)} output tokens` +
+    ` (${tokens(usage.reasoning)} reasoning, ${tokens(usage.cacheRead)} cache read) over ${usage.replies} judge replies`
+}
+
+// ==================== STATE ====================
+
+// Attempt counters and completion marks, kept in .reflection/state.json so they survive restarts
+const STATE_FILE = "state.json"
+const STATE_MAX_SESSIONS = 500
+const STATE_MAX_AGE = 30 * 24 * 60 * 60 * 1000
+
+interface SessionState {
+  lastReflected: number             // Human message count of the last task that finished reflection
+  attempts: Record<string, number>  // Feedback attempts per task, keyed by human message count
+  aborted?: boolean                 // Cancelled by the user - never reflect again
+  usage?: JudgeUsage                // Judge spend for this session
+  updatedAt: number
+}
+
+interface ReflectionState {
+  version: 1
+  sessions: Record<string, SessionState>
+  usage?: JudgeUsage                // Judge spend for the whole project - never pruned
+  verdicts?: Record<string, CachedVerdict>  // Judge verdicts keyed by verdictFingerprint
+}
+
+interface CachedVerdict {
+  verdict: Verdict
+  judgeModel?: string
+  savedAt: number
+}
+
+const VERDICT_CACHE_MAX = 200
+
+/**
+ * Hash of everything the judge's verdict depends on that the agent controls, plus the rubric
+ */
+function verdictFingerprint(extracted: { task: string; result: string; tools: string }, rubric: string): string {
+  return createHash("sha256")
+    .update(JSON.stringify([extracted.task, extracted.result, extracted.tools, rubric]))
+    .digest("hex")
+}
+
+async function readState(path: string): Promise<ReflectionState> {
+  try {
+    const raw = JSON.parse(await readFile(path, "utf-8"))
+    if (isPlainObject(raw) && raw.version === 1 && isPlainObject(raw.sessions)) {
+      return raw as ReflectionState
+    }
+  } catch {}
+  return { version: 1, sessions: {} }
+}
+
+/**
+ * Drop sessions untouched for STATE_MAX_AGE, then keep the STATE_MAX_SESSIONS most recent
+ * (and the VERDICT_CACHE_MAX newest cached verdicts)
+ */
+function pruneState(state: ReflectionState, now: number): void {
+  const entries = Object.entries(state.sessions)
+    .filter(([, session]) => now - (session.updatedAt || 0) < STATE_MAX_AGE)
+    .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+    .slice(0, STATE_MAX_SESSIONS)
+  state.sessions = Object.fromEntries(entries)
+  if (state.verdicts) {
+    state.verdicts = Object.fromEntries(Object.entries(state.verdicts)
+      .sort(([, a], [, b]) => b.savedAt - a.savedAt)
+      .slice(0, VERDICT_CACHE_MAX))
+  }
+}
+
+/**
+ * Write via a temp file and rename so a crash never leaves a truncated state file
+ */
+async function writeState(path: string, state: ReflectionState): Promise<void> {
+  const tmp = `${path}.${process.pid}.tmp`
+  await writeFile(tmp, JSON.stringify(state, null, 2))
+  await rename(tmp, path)
+}
+
+// ==================== HISTORY ====================
+
+// Reflection data files are named <session prefix>_<timestamp>.json.
+// Keep the reader in sync with reflection-history.ts, the standalone copy for scripts
+const REFLECTION_FILE_PATTERN = /^.+_(\d+)\.json$/
+
+interface ReflectionRecord {
+  file: string
+  sessionId?: string
+  humanMsgCount?: number  // Identifies the task within its session
+  timestamp: string
+  task: string
+  verdict: Verdict | null
+  error?: string
+  judgeModel?: string
+  taskType?: string
+  cached?: boolean        // Reused from the verdict cache, no judge ran
+}
+
+interface ReflectionFilter {
+  sessionId?: string      // Only this session (matched by file prefix for older records)
+  humanMsgCount?: number  // Only this task within the session
+  severity?: Severity
+  complete?: boolean
+  limit?: number
+}
+
+/**
+ * Read saved verdicts from <directory>/.reflection/, newest first
+ */
+async function listReflections(directory: string, filter: ReflectionFilter = {}): Promise<ReflectionRecord[]> {
+  const dir = join(directory, ".reflection")
+  let files: string[]
+  try {
+    files = (await readdir(dir)).filter(f => REFLECTION_FILE_PATTERN.test(f))
+  } catch {
+    return []
+  }
+  if (filter.sessionId) {
+    const prefix = `${filter.sessionId.slice(0, 8)}_`
+    files = files.filter(f => f.startsWith(prefix))
+  }
+  // Newest first by the timestamp in the file name
+  const savedAt = (file: string) => Number(REFLECTION_FILE_PATTERN.exec(file)![1])
+  files.sort((a, b) => savedAt(b) - savedAt(a))
+
+  const records: ReflectionRecord[] = []
+  for (const file of files) {
+    let data: any
+    try {
+      data = JSON.parse(await readFile(join(dir, file), "utf-8"))
+    } catch {
+      continue
+    }
+    if (filter.sessionId && data.sessionId && data.sessionId !== filter.sessionId) continue
+    if (filter.humanMsgCount !== undefined && data.humanMsgCount !== filter.humanMsgCount) continue
+    // Older files stored whatever the judge replied - only a verdict that validates is shown as one
+    const stored = data.verdict ? validateVerdict(data.verdict) : {}
+    const verdict = stored.verdict || null
+    if (filter.severity && verdict?.severity !== filter.severity) continue
+    if (filter.complete !== undefined && verdict?.complete !== filter.complete) continue
+    records.push({
+      file,
+      sessionId: data.sessionId,
+      humanMsgCount: data.humanMsgCount,
+      timestamp: String(data.timestamp ?? ""),
+      task: typeof data.task === "string" ? data.task : "",
+      verdict,
+      error: stored.error ? `invalid stored verdict: ${stored.error}` : data.error,
+      judgeModel: data.judgeModel,
+      taskType: data.taskType,
+      cached: data.cached
+    })
+    if (filter.limit && records.length >= filter.limit) break
+  }
+  return records
+}
+
+function firstLine(text: string, maxChars: number): string {
+  const line = (text.split("\n").find(l => l.trim()) || "").trim()
+  return line.length > maxChars ? `${line.slice(0, maxChars - 1)}…` : line
+}
+
+function formatReflectionList(records: ReflectionRecord[], scope: string): string {
+  if (records.length === 0) return `## Reflection: History (${scope})\n\nNo reflections found.`
+  const rows = records.map((r, i) => {
+    const status = r.verdict ? `${r.verdict.complete ? "complete" : "incomplete"} [${r.verdict.severity}]` : `no verdict (${r.error || "unknown"})`
+    return `${i + 1}. ${r.timestamp} - ${status} - ${firstLine(r.task, 80)}`
+  })
+  return `## Reflection: History (${scope})
+
+${rows.join("\n")}
+
+Use \`/reflection show <number>\` for details.`
+}
+
+function formatReflectionDetail(record: ReflectionRecord): string {
+  const v = record.verdict
+  const lines = [
+    `## Reflection: ${record.file}`,
+    "",
+    `- **When:** ${record.timestamp}`,
+    `- **Verdict:** ${v ? `${v.complete ? "complete" : "incomplete"} [${v.severity}]` : `none (${record.error || "unknown"})`}`
+  ]
+  if (record.taskType) lines.push(`- **Task type:** ${record.taskType}`)
+  if (record.judgeModel) lines.push(`- **Judge:** ${record.judgeModel}${record.cached ? " (cached verdict)" : ""}`)
+  else if (record.cached) lines.push("- **Judge:** cached verdict")
+  lines.push("", "### Task", firstLine(record.task, 500))
+  if (v) {
+    lines.push("", "### Feedback", v.feedback || "(none)")
+    if (v.missing.length) lines.push("", "### Missing", ...v.missing.map(m => `- ${m}`))
+    if (v.next_actions.length) lines.push("", "### Next Actions", ...v.next_actions.map(a => `- ${a}`))
+  }
+  return lines.join("\n")
+}
+
+/**
+ * Parse `/reflection [list] [all] [complete|incomplete] [<severity>] [<limit>]` and `/reflection show <n|file>`
+ */
+function parseHistoryArgs(args: string): { show?: string; all: boolean; filter: ReflectionFilter } {
+  const tokens = args.trim().split(/\s+/).filter(Boolean)
+  if (tokens[0]?.toLowerCase() === "show") return { show: tokens[1] || "1", all: tokens.includes("all"), filter: {} }
+  const filter: ReflectionFilter = { limit: 20 }
+  let all = false
+  for (const token of tokens) {
+    const t = token.toLowerCase()
+    if (t === "list") continue
+    if (t === "all") all = true
+    else if (t === "complete") filter.complete = true
+    else if (t === "incomplete") filter.complete = false
+    else if (SEVERITIES.includes(token.toUpperCase() as Severity)) filter.severity = token.toUpperCase() as Severity
+    else if (/^\d+$/.test(t)) filter.limit = Number(t)
+  }
+  return { all, filter }
+}
+
+// Every text part this plugin injects into a user's session carries this metadata key.
+// Counting and extraction rely on it rather than on the message text, which users can quote.
+const PLUGIN_METADATA_KEY = "reflection"
+
+type PluginMessageKind = "feedback" | "notice" | "command"
+
+function pluginTextPart(text: string, kind: PluginMessageKind) {
+  return { type: "text" as const, text, metadata: { [PLUGIN_METADATA_KEY]: kind } }
+}
+
+function isPluginPart(part: Part): boolean {
+  return part.type === "text" && typeof part.metadata?.[PLUGIN_METADATA_KEY] === "string"
+}
+
+/**
+ * Markdown summary of every verdict on a task that ran out of attempts (records oldest first)
+ */
+function formatTaskReport(records: ReflectionRecord[], sessionId: string, attempts: number, maxAttempts: number): string {
+  const verdicts = records.map(r => r.verdict).filter((v): v is Verdict => v !== null)
+  const final = verdicts[verdicts.length - 1]
+  const task = records[records.length - 1]?.task || ""
+  const lines = [
+    `# Reflection Report: ${firstLine(task, 80) || "(unknown task)"}`,
+    "",
+    `- **Session:** ${sessionId}`,
+    `- **Attempts:** ${attempts}/${maxAttempts} used`,
+    `- **Final verdict:** ${final ? `${final.complete ? "complete" : "incomplete"} [${final.severity}]` : "none"}`,
+    "",
+    "## Severity Trend",
+    "",
+    verdicts.length ? verdicts.map(v => v.severity).join(" → ") : "(no verdicts recorded)",
+    ""
+  ]
+  records.forEach((r, i) => {
+    const status = r.verdict ? `${r.verdict.severity} - ${firstLine(r.verdict.feedback, 120)}` : `no verdict (${r.error || "unknown"})`
+    lines.push(`${i + 1}. ${r.timestamp}: ${status}${r.cached ? " (cached)" : ""}`)
+  })
+  // Items the final verdict still lists are unresolved; earlier ones that dropped off were fixed
+  const unresolved = final?.missing || []
+  const resolved = unique(verdicts.slice(0, -1).flatMap(v => v.missing)).filter(m => !unresolved.includes(m))
+  lines.push("", "## Unresolved", "", unresolved.length ? bulletList(unresolved) : "(none listed)")
+  if (resolved.length) lines.push("", "## Resolved Along the Way", "", bulletList(resolved))
+  lines.push("", "## Next Actions", "", final?.next_actions.length ? bulletList(final.next_actions) : "(none listed)")
+  lines.push("", "## Task", "", task)
+  return lines.join("\n")
+}
+
+// Commands handled by plugins in this repo - their messages aren't tasks to reflect on
+const PLUGIN_COMMANDS = ["reflection", "tts"]
+
+// The prompt OpenCode sends for a plugin command - recognized in chat.message before the agent replies.
+// Keep in sync with COMMAND_PROMPT in tts.ts
+const COMMAND_PROMPT = /^The \/(reflection|tts) command \(.*\) was handled by the \S+ plugin\./s
+
+// Feedback held in "ask" mode until the user runs /reflection send or dismiss
+interface PendingFeedback {
+  text: string
+  severity: Severity
+  humanMsgCount: number
+  timer?: ReturnType<typeof setTimeout>
+}
+
+// ==================== PLUGIN ====================
 
 export const ReflectionPlugin: Plugin = async ({ client, directory }) => {
+  const projectConfigPath = join(directory, ".opencode", "reflection.json")
+  let config = DEFAULT_CONFIG
+  let configStamp: string | null = null
+
+  /**
+   * Return the current config, reloading when either config file changed on disk
+   */
+  async function getConfig(): Promise<ReflectionConfig> {
+    const stamps = await Promise.all([GLOBAL_CONFIG_PATH, projectConfigPath].map(async path => {
+      try {
+        return String((await stat(path)).mtimeMs)
+      } catch {
+        return "-"
+      }
+    }))
+    const stamp = stamps.join(":")
+    if (stamp === configStamp) return config
+    configStamp = stamp
+    const loaded = await loadConfig(directory)
+    config = loaded.config
+    if (loaded.errors.length) {
+      await showToast(`Config: ${loaded.errors.join("; ")}`, "warning")
+    }
+    return config
+  }
   
-  // Track attempts per (sessionId, humanMsgCount) - resets automatically for new messages
-  const attempts = new Map<string, number>()
-  // Track which human message count we last completed reflection on
-  const lastReflectedMsgCount = new Map<string, number>()
   const activeReflections = new Set<string>()
+  const reflectionRuns = new Map<string, Promise<void>>() // Running reflections - awaited by a parent judging its subagents
+  const settleTimers = new Map<string, ReturnType<typeof setTimeout>>() // Idle sessions waiting out settleDelay
+  const reflectionQueue: string[] = [] // Settled sessions waiting for a free slot (maxConcurrent)
+  const reflectionAborts = new Map<string, AbortController>() // In-flight reflections - aborted when the user intervenes
   const abortedSessions = new Set<string>() // Permanently track aborted sessions - never reflect on these
   const judgeSessionIds = new Set<string>() // Track judge session IDs to skip them
+  // Set by events when a judge session may have replied - consumed by waitForResponse
+  const judgeSignals = new Map<string, { pending: boolean; wake?: () => void }>()
+  const gitBaselines = new Map<string, GitBaseline>() // Working tree snapshot when each session's task started
+  const pluginCommandMessages = new Set<string>() // /reflection and /tts messages - not tasks
+  const pendingFeedback = new Map<string, PendingFeedback>() // "ask" mode: feedback waiting for /reflection send
+  let budgetToastShown = false
 
   // Directory for storing reflection input/output
   const reflectionDir = join(directory, ".reflection")
@@ -34,28 +1622,212 @@ export const ReflectionPlugin: Plugin = async ({ client, directory }) => {
     } catch {}
   }
 
+  const logPath = join(reflectionDir, LOG_FILE)
+
+  /**
+   * Append a JSONL entry to .reflection/reflection.log - never throws
+   */
+  async function log(level: LogLevel, event: string, fields: Record<string, unknown> = {}): Promise<void> {
+    const threshold = config.logLevel
+    if (threshold === "off" || LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(threshold)) return
+    try {
+      await ensureReflectionDir()
+      await appendFile(logPath, formatLogEntry(level, event, fields))
+    } catch {}
+  }
+
+  // Attempts, completion marks and aborts per session - loaded from disk on first use
+  const statePath = join(reflectionDir, STATE_FILE)
+  let state: ReflectionState | null = null
+  let stateWrite: Promise<void> = Promise.resolve()
+
+  async function getState(): Promise<ReflectionState> {
+    if (!state) {
+      state = await readState(statePath)
+      for (const [id, session] of Object.entries(state.sessions)) {
+        if (session.aborted) abortedSessions.add(id)
+      }
+    }
+    return state
+  }
+
+  async function getSessionState(sessionId: string): Promise<SessionState> {
+    const current = await getState()
+    const session = current.sessions[sessionId] ||= { lastReflected: 0, attempts: {}, updatedAt: Date.now() }
+    // Older state files may lack fields
+    session.attempts ||= {}
+    session.lastReflected ||= 0
+    return session
+  }
+
+  // Writes are chained so concurrent reflections never interleave on disk
+  async function saveState(): Promise<void> {
+    if (!state) return
+    const snapshot = state
+    pruneState(snapshot, Date.now())
+    stateWrite = stateWrite.then(async () => {
+      await ensureReflectionDir()
+      await writeState(statePath, snapshot)
+    }).catch(() => {})
+    await stateWrite
+  }
+
+  async function markAborted(sessionId: string): Promise<void> {
+    abortedSessions.add(sessionId)
+    const session = await getSessionState(sessionId)
+    if (session.aborted) return
+    session.aborted = true
+    session.updatedAt = Date.now()
+    await saveState()
+  }
+
+  // Add judge spend to the session's and the project's totals
+  async function recordUsage(session: SessionState, usage: JudgeUsage): Promise<void> {
+    const current = await getState()
+    session.usage = addUsage(session.usage, usage)
+    session.updatedAt = Date.now()
+    current.usage = addUsage(current.usage, usage)
+    await saveState()
+  }
+
+  // The task at humanMsgCount is done (complete, gave up or skipped) - forget its attempts
+  async function markReflected(session: SessionState, humanMsgCount: number): Promise<void> {
+    session.lastReflected = humanMsgCount
+    session.attempts = {}
+    session.updatedAt = Date.now()
+    await saveState()
+  }
+
   async function saveReflectionData(sessionId: string, data: {
+    humanMsgCount: number
+    taskType?: TaskType
     task: string
     result: string
     tools: string
-    prompt: string
-    verdict: { 
-      complete: boolean
-      severity: string
-      feedback: string
-      missing?: string[]
-      next_actions?: string[]
-    } | null
+    prompt?: string
+    verdict: Verdict | null
+    cached?: boolean
+    error?: string
+    judgeModel?: string
+    diff?: DiffSummary | null
+    verification?: VerificationResult[]
+    panel?: { strategy: PanelStrategy; votes: PanelVote[] }
+    children?: { id: string; title: string; verdict: Verdict | null }[]
+    usage?: JudgeUsage
     timestamp: string
   }): Promise<void> {
     await ensureReflectionDir()
     const filename = `${sessionId.slice(0, 8)}_${Date.now()}.json`
     const filepath = join(reflectionDir, filename)
     try {
-      await writeFile(filepath, JSON.stringify(data, null, 2))
+      await writeFile(filepath, JSON.stringify({ sessionId, ...data }, null, 2))
+    } catch {}
+  }
+
+  /**
+   * Post a message into the session for the user to read, without prompting the agent
+   */
+  async function postNotice(sessionId: string, text: string): Promise<void> {
+    try {
+      await client.session.promptAsync({
+        path: { id: sessionId },
+        body: { noReply: true, parts: [pluginTextPart(text, "notice")] }
+      })
     } catch {}
   }
 
+  /**
+   * Write .reflection/report_*.md for a task that ran out of attempts, and post it in the session
+   * if postReport is on. Returns the report's path relative to the project.
+   */
+  async function writeTaskReport(
+    sessionId: string,
+    humanMsgCount: number,
+    cfg: ReflectionConfig,
+    attempts: number,
+    maxAttempts = cfg.maxAttempts
+  ): Promise<string | null> {
+    const records = (await listReflections(directory, { sessionId, humanMsgCount })).reverse()
+    if (records.length === 0) return null
+    const report = formatTaskReport(records, sessionId, attempts, maxAttempts)
+    const filename = `report_${sessionId.slice(0, 8)}_${Date.now()}.md`
+    try {
+      await ensureReflectionDir()
+      await writeFile(join(reflectionDir, filename), report)
+    } catch (e) {
+      await log("error", "report write failed", { sessionId, ...errorFields(e) })
+      return null
+    }
+    if (cfg.postReport) await postNotice(sessionId, report)
+    return join(".reflection", filename)
+  }
+
+  async function formatUsageReport(sessionId: string): Promise<string> {
+    const current = await getState()
+    const cfg = await getConfig()
+    const spent = current.usage?.cost || 0
+    const budget = cfg.budgetUsd !== undefined
+      ? `$${cfg.budgetUsd} ($${Math.max(cfg.budgetUsd - spent, 0).toFixed(4)} left)`
+      : "not set"
+    return `## Reflection: Judge Usage
+
+- **This session:** ${formatUsage(current.sessions[sessionId]?.usage)}
+- **Project:** ${formatUsage(current.usage)}
+- **Budget:** ${budget}`
+  }
+
+  /**
+   * Handle /reflection - approve or dismiss held feedback, show judge spend, or browse history
+   */
+  async function handleReflectionCommand(sessionId: string, args: string): Promise<void> {
+    const action = args.trim().split(/\s+/)[0]?.toLowerCase()
+    if (action === "cost") {
+      await postNotice(sessionId, await formatUsageReport(sessionId))
+      return
+    }
+    if (action !== "send" && action !== "dismiss") {
+      await handleHistoryCommand(sessionId, args)
+      return
+    }
+    const pending = pendingFeedback.get(sessionId)
+    if (!pending) {
+      await showToast("No reflection feedback waiting for approval", "info")
+      return
+    }
+    clearPendingFeedback(sessionId)
+    if (action === "send") {
+      await sendFeedback(sessionId, pending)
+      await showToast("Feedback sent", "info")
+    } else {
+      // Dismissed - treat the task as done so it isn't judged again
+      await markReflected(await getSessionState(sessionId), pending.humanMsgCount)
+      await log("info", "held feedback dismissed", { sessionId })
+      await showToast("Feedback dismissed", "info")
+    }
+  }
+
+  /**
+   * List past verdicts or show one in the session
+   */
+  async function handleHistoryCommand(sessionId: string, args: string): Promise<void> {
+    const { show, all, filter } = parseHistoryArgs(args)
+    const scope = all ? "project" : "this session"
+    if (!all) filter.sessionId = sessionId
+
+    if (show) {
+      const records = await listReflections(directory, all ? {} : { sessionId })
+      const record = /^\d+$/.test(show) ? records[Number(show) - 1] : records.find(r => r.file === show)
+      if (!record) {
+        await showToast(`No reflection "${show}" in ${scope}`, "warning")
+        return
+      }
+      await postNotice(sessionId, formatReflectionDetail(record))
+      return
+    }
+
+    await postNotice(sessionId, formatReflectionList(await listReflections(directory, filter), scope))
+  }
+
   async function showToast(message: string, variant: "info" | "success" | "warning" | "error" = "info") {
     try {
       await client.tui.publish({
@@ -77,22 +1849,89 @@ export const ReflectionPlugin: Plugin = async ({ client, directory }) => {
     return ""
   }
 
-  function isJudgeSession(sessionId: string, messages: any[]): boolean {
-    // Fast path: known judge session
+  /**
+   * Pick the judge rubric: configured promptFile, then .opencode/reflection-prompt.md, then the task type's
+   * preset, then the configured preset
+   */
+  async function getPromptTemplate(cfg: ReflectionConfig, taskType?: TaskType): Promise<{ title: string; template: string }> {
+    const path = join(directory, cfg.promptFile || PROJECT_PROMPT_FILE)
+    try {
+      const template = await readFile(path, "utf-8")
+      if (template.trim()) return { title: "Project Rubric", template }
+    } catch {
+      if (cfg.promptFile) await showToast(`Prompt file not found: ${cfg.promptFile}`, "warning")
+    }
+    return PROMPT_PRESETS[(taskType && TASK_TYPE_PRESETS[taskType]) || cfg.promptPreset]
+  }
+
+  async function getSessionInfo(sessionId: string): Promise<Session | null> {
+    try {
+      const { data: session } = await client.session.get({ path: { id: sessionId } })
+      return session || null
+    } catch {
+      return null
+    }
+  }
+
+  function isJudgeSession(sessionId: string, info: Session | null): boolean {
+    // Fast path: judge session created by this process
     if (judgeSessionIds.has(sessionId)) return true
-    
-    // Content-based detection
-    for (const msg of messages) {
-      for (const part of msg.parts || []) {
-        if (part.type === "text" && part.text?.includes("TASK VERIFICATION")) {
-          return true
-        }
-      }
+
+    // Judge sessions from other processes (or before a restart) are tagged by title
+    if (info?.title?.startsWith(JUDGE_TITLE_PREFIX)) {
+      judgeSessionIds.add(sessionId)
+      return true
     }
     return false
   }
 
-  function wasSessionAborted(sessionId: string, messages: any[]): boolean {
+  // When the latest human message was sent - children created since then belong to this task
+  function latestHumanMessageTime(messages: SessionMessage[]): number {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const msg = messages[i]
+      if (msg.info?.role !== "user" || isPluginCommandMessage(msg) || (msg.parts || []).some(isPluginPart)) continue
+      return msg.info?.time?.created || 0
+    }
+    return 0
+  }
+
+  /**
+   * Subagent sessions created since `since`, with their final response and latest verdict
+   */
+  async function collectChildren(sessionId: string, since: number, cfg: ReflectionConfig): Promise<ChildSummary[]> {
+    let sessions: Session[] = []
+    try {
+      const { data } = await client.session.children({ path: { id: sessionId } })
+      sessions = (data || []).filter(child => (child.time?.created || 0) >= since && !isJudgeSession(child.id, child))
+    } catch {
+      return []
+    }
+    const children: ChildSummary[] = []
+    for (const child of sessions) {
+      // The subagent's own verdict must be in before it is read below
+      if (cfg.judgeChildSessions) await settleChildReflection(child.id)
+      let result = ""
+      try {
+        const { data: messages } = await client.session.messages({ path: { id: child.id } })
+        for (const msg of messages || []) {
+          if (msg.info?.role !== "assistant") continue
+          for (const part of msg.parts || []) {
+            if (part.type === "text" && part.text) result = part.text
+          }
+        }
+      } catch {}
+      const [latest] = cfg.judgeChildSessions ? await listReflections(directory, { sessionId: child.id, limit: 1 }) : []
+      children.push({
+        id: child.id,
+        title: child.title || child.id,
+        result: headTail(result, cfg.toolOutputMaxChars),
+        verdict: latest?.verdict || null
+      })
+    }
+    return children
+  }
+
+  function wasSessionAborted(sessionId: string, messages: SessionMessage[]): boolean {
     // Fast path: already known to be aborted
     if (abortedSessions.has(sessionId)) return true
     
@@ -101,7 +1940,7 @@ export const ReflectionPlugin: Plugin = async ({ client, directory }) => {
     // Once aborted, we should never reflect on this session again
     for (const msg of messages) {
       if (msg.info?.role === "assistant") {
-        const error = msg.info?.error
+        const error = msg.info.error
         if (error) {
           // Check for MessageAbortedError by name
           if (error.name === "MessageAbortedError") {
@@ -109,7 +1948,7 @@ export const ReflectionPlugin: Plugin = async ({ client, directory }) => {
             return true
           }
           // Also check error message content for abort indicators
-          const errorMsg = error.data?.message || error.message || ""
+          const errorMsg = error.data?.message || ""
           if (typeof errorMsg === "string" && errorMsg.toLowerCase().includes("abort")) {
             abortedSessions.add(sessionId)
             return true
@@ -120,13 +1959,21 @@ export const ReflectionPlugin: Plugin = async ({ client, directory }) => {
     return false
   }
 
-  function countHumanMessages(messages: any[]): number {
+  // Messages sent by /reflection or /tts, and the agent's replies to them
+  function isPluginCommandMessage(msg: SessionMessage): boolean {
+    return pluginCommandMessages.has(msg.info.id) ||
+      (msg.info.role === "assistant" && pluginCommandMessages.has(msg.info.parentID))
+  }
+
+  function countHumanMessages(messages: SessionMessage[]): number {
     let count = 0
     for (const msg of messages) {
+      if (isPluginCommandMessage(msg)) continue
       if (msg.info?.role === "user") {
-        // Don't count reflection feedback as human input
+        // Don't count reflection feedback or notices as human input
+        if ((msg.parts || []).some(isPluginPart)) continue
         for (const part of msg.parts || []) {
-          if (part.type === "text" && part.text && !part.text.includes("## Reflection:")) {
+          if (part.type === "text" && part.text) {
             count++
             break
           }
@@ -136,17 +1983,26 @@ export const ReflectionPlugin: Plugin = async ({ client, directory }) => {
     return count
   }
 
-  function extractTaskAndResult(messages: any[]): { task: string; result: string; tools: string } | null {
-    let task = ""
+  /**
+   * Build the judge's view of the conversation: every human message (latest last),
+   * tool calls with their outputs, and the final assistant response - within the token budget.
+   */
+  function extractTaskAndResult(
+    messages: SessionMessage[],
+    cfg: ReflectionConfig
+  ): { task: string; result: string; tools: string; request: string; editedFiles: boolean } | null {
+    const humanMessages: string[] = []
+    const toolCalls: string[] = []
     let result = ""
-    const tools: string[] = []
+    let editedFiles = false // Only edit or bash calls made for the latest human message count
 
     for (const msg of messages) {
-      if (msg.info?.role === "user") {
+      if (isPluginCommandMessage(msg)) continue
+      if (msg.info?.role === "user" && !(msg.parts || []).some(isPluginPart)) {
         for (const part of msg.parts || []) {
           if (part.type === "text" && part.text) {
-            if (part.text.includes("## Reflection:")) continue
-            task = part.text // Always update to most recent human message
+            humanMessages.push(part.text)
+            editedFiles = false
             break
           }
         }
@@ -154,9 +2010,8 @@ export const ReflectionPlugin: Plugin = async ({ client, directory }) => {
 
       for (const part of msg.parts || []) {
         if (part.type === "tool") {
-          try {
-            tools.push(`${part.tool}: ${JSON.stringify(part.state?.input || {}).slice(0, 200)}`)
-          } catch {}
+          toolCalls.push(formatToolCall(part, cfg.toolOutputMaxChars))
+          if (EDIT_TOOLS.includes(part.tool)) editedFiles = true
         }
       }
 
@@ -169,277 +2024,793 @@ export const ReflectionPlugin: Plugin = async ({ client, directory }) => {
       }
     }
 
-    if (!task || !result) return null
-    return { task, result, tools: tools.slice(-10).join("\n") }
+    if (humanMessages.length === 0 || !result) return null
+
+    const budget = cfg.transcriptMaxTokens * CHARS_PER_TOKEN
+    const latest = humanMessages[humanMessages.length - 1]
+    const earlier = humanMessages.slice(0, -1).map((text, i) => `[Message ${i + 1}]\n${text}`)
+    const taskBudget = Math.floor(budget * TASK_BUDGET_SHARE)
+    const latestText = headTail(latest, taskBudget)
+    const task = earlier.length
+      ? `${fitNewest(earlier, Math.max(taskBudget - latestText.length, 0), "messages")}\n\n[Latest message]\n${latestText}`
+      : latestText
+    const tools = fitNewest(toolCalls, Math.max(budget - task.length, 0), "tool calls")
+    return { task, result, tools, request: latest, editedFiles }
+  }
+
+  function signalJudge(sessionId: string): void {
+    const signal = judgeSignals.get(sessionId)
+    if (!signal) return
+    signal.pending = true
+    signal.wake?.()
+  }
+
+  /**
+   * Resolve when an event signals the judge session, the reflection is cancelled, or after `ms` as a polling fallback
+   */
+  function waitForSignal(sessionId: string, ms: number, abort?: AbortSignal): Promise<void> {
+    let signal = judgeSignals.get(sessionId)
+    if (!signal) {
+      signal = { pending: false }
+      judgeSignals.set(sessionId, signal)
+    }
+    const current = signal
+    if (current.pending || abort?.aborted) {
+      current.pending = false
+      return Promise.resolve()
+    }
+    return new Promise(resolve => {
+      const timer = setTimeout(done, ms)
+      function done() {
+        clearTimeout(timer)
+        abort?.removeEventListener("abort", done)
+        current.wake = undefined
+        current.pending = false
+        resolve()
+      }
+      current.wake = done
+      abort?.addEventListener("abort", done)
+    })
   }
 
-  async function waitForResponse(sessionId: string): Promise<string | null> {
-    const start = Date.now()
-    while (Date.now() - start < JUDGE_RESPONSE_TIMEOUT) {
-      await new Promise(r => setTimeout(r, POLL_INTERVAL))
+  // Waits for an assistant reply beyond the first seenReplies, so a follow-up prompt doesn't return the previous answer.
+  // Returns { error } when the model itself failed (auth, API, output length), null on timeout.
+  async function waitForResponse(
+    sessionId: string,
+    cfg: ReflectionConfig,
+    abort: AbortSignal,
+    seenReplies = 0
+  ): Promise<{ text?: string; error?: string } | null> {
+    const deadline = Date.now() + cfg.judgeResponseTimeout
+    while (Date.now() < deadline && !abort.aborted) {
+      // Woken by message.updated/session.idle for the judge; pollInterval only matters if events are missed
+      await waitForSignal(sessionId, Math.min(cfg.pollInterval, deadline - Date.now()), abort)
+      if (abort.aborted) break
       try {
         const { data: messages } = await client.session.messages({ path: { id: sessionId } })
-        const assistantMsg = [...(messages || [])].reverse().find((m: any) => m.info?.role === "assistant")
-        if (!(assistantMsg?.info?.time as any)?.completed) continue
-        for (const part of assistantMsg?.parts || []) {
-          if (part.type === "text" && part.text) return part.text
+        const replies = (messages || []).filter(m => m.info?.role === "assistant")
+        if (replies.length <= seenReplies) continue
+        const { info, parts } = replies[replies.length - 1]
+        if (info.role !== "assistant") continue
+        if (info.error) {
+          const message = info.error.data?.message
+          return { error: typeof message === "string" && message ? message : info.error.name }
+        }
+        if (!info.time.completed) continue
+        for (const part of parts || []) {
+          if (part.type === "text" && part.text) return { text: part.text }
         }
       } catch {}
     }
     return null
   }
 
-  // Generate a key for tracking attempts per task (session + human message count)
-  function getAttemptKey(sessionId: string, humanMsgCount: number): string {
-    return `${sessionId}:${humanMsgCount}`
-  }
-
-  async function runReflection(sessionId: string): Promise<void> {
-    // Prevent concurrent reflections on same session
-    if (activeReflections.has(sessionId)) {
-      return
-    }
-    activeReflections.add(sessionId)
-
+  // Assistant replies in a session so far - at least the one already read if the session can't be fetched
+  async function countReplies(sessionId: string): Promise<number> {
     try {
-      // Get messages first - needed for all checks
       const { data: messages } = await client.session.messages({ path: { id: sessionId } })
-      if (!messages || messages.length < 2) return
+      return Math.max((messages || []).filter(m => m.info?.role === "assistant").length, 1)
+    } catch {
+      return 1
+    }
+  }
 
-      // Skip if session was aborted/cancelled by user (Esc key) - check FIRST
-      if (wasSessionAborted(sessionId, messages)) {
-        return
-      }
+  /**
+   * Wait for the judge's reply and parse it. If the reply isn't a valid verdict,
+   * ask the judge once to fix it before giving up.
+   */
+  async function getVerdict(
+    judgeSessionId: string,
+    cfg: ReflectionConfig,
+    modelOptions: JudgeModelOptions,
+    abort: AbortSignal
+  ): Promise<{ verdict?: Verdict; error?: string; modelFailed?: boolean }> {
+    const response = await waitForResponse(judgeSessionId, cfg, abort)
+    if (abort.aborted) return { error: CANCELLED }
+    if (!response) return { error: "judge timed out" }
+    if (response.error) return { error: response.error, modelFailed: true }
 
-      // Skip judge sessions
-      if (isJudgeSession(sessionId, messages)) {
-        return
-      }
+    const first = parseVerdict(response.text || "")
+    if (first.verdict) return first
 
-      // Count human messages to determine current "task"
-      const humanMsgCount = countHumanMessages(messages)
-      if (humanMsgCount === 0) return
+    // The judge may have answered in several messages - only a reply after the repair prompt counts
+    const seenReplies = await countReplies(judgeSessionId)
+    const { error: repairError } = await client.session.promptAsync({
+      path: { id: judgeSessionId },
+      body: {
+        ...modelOptions,
+        parts: [{
+          type: "text",
+          text: `Your reply could not be used: ${first.error}.
 
-      // Check if we already completed reflection for this exact message count
-      const lastReflected = lastReflectedMsgCount.get(sessionId) || 0
-      if (humanMsgCount <= lastReflected) {
-        // Already handled this task
-        return
+${VERDICT_FORMAT}`
+        }]
       }
+    })
+    if (repairError) {
+      const message = "name" in repairError ? repairError.data.message : "prompt rejected"
+      return { error: `${first.error}; repair failed: ${message}` }
+    }
+    const repaired = await waitForResponse(judgeSessionId, cfg, abort, seenReplies)
+    if (abort.aborted) return { error: CANCELLED }
+    if (!repaired) return { error: `${first.error}; judge timed out on repair` }
+    const second = parseVerdict(repaired.text || "")
+    return second.verdict ? second : { error: `${first.error}; after repair: ${repaired.error || second.error}` }
+  }
 
-      // Get attempt count for THIS specific task (session + message count)
-      const attemptKey = getAttemptKey(sessionId, humanMsgCount)
-      const attemptCount = attempts.get(attemptKey) || 0
-      
-      if (attemptCount >= MAX_ATTEMPTS) {
-        // Max attempts for this task - mark as reflected and stop
-        lastReflectedMsgCount.set(sessionId, humanMsgCount)
-        await showToast(`Max attempts (${MAX_ATTEMPTS}) reached`, "warning")
-        return
-      }
+  /**
+   * Delete a judge session, returning the tokens and cost it used
+   */
+  async function cleanupJudgeSession(judgeSessionId: string): Promise<JudgeUsage> {
+    let usage = emptyUsage()
+    try {
+      const { data: messages } = await client.session.messages({ path: { id: judgeSessionId } })
+      usage = usageFromMessages(messages || [])
+    } catch {}
+    try {
+      await client.session.delete({ 
+        path: { id: judgeSessionId },
+        query: { directory }
+      })
+    } catch (e) {
+      // Log deletion failures for debugging (but don't break the flow)
+      await log("warn", "judge session cleanup failed", { judgeSessionId, ...errorFields(e) })
+    } finally {
+      judgeSessionIds.delete(judgeSessionId)
+      judgeSignals.get(judgeSessionId)?.wake?.()
+      judgeSignals.delete(judgeSessionId)
+    }
+    return usage
+  }
 
-      // Extract task info
-      const extracted = extractTaskAndResult(messages)
-      if (!extracted) return
+  /**
+   * Evaluate the prompt in a throwaway judge session. Uses the configured judge model,
+   * moving on to each fallback model when the previous one errors. Cancelling the
+   * reflection stops the wait and deletes the judge session.
+   */
+  async function runJudge(
+    prompt: string,
+    cfg: ReflectionConfig,
+    abort: AbortSignal,
+    judgeModel = cfg.judgeModel
+  ): Promise<{ verdict?: Verdict; error?: string; model?: string; usage: JudgeUsage }> {
+    const models = [judgeModel, ...cfg.judgeFallbackModels]
+    let lastError = "could not create judge session"
+    let usage = emptyUsage()
 
-      // Create judge session and evaluate
+    for (const model of models) {
+      if (abort.aborted) return { error: CANCELLED, usage }
       const { data: judgeSession } = await client.session.create({
-        query: { directory }
+        query: { directory },
+        body: { title: `${JUDGE_TITLE_PREFIX} ${model || "default model"}` }
       })
-      if (!judgeSession?.id) return
+      if (!judgeSession?.id) return { error: lastError, usage }
 
       // Track judge session ID to skip it if session.idle fires on it
       judgeSessionIds.add(judgeSession.id)
+      judgeSignals.set(judgeSession.id, { pending: false })
 
-      // Helper to clean up judge session (always called)
-      const cleanupJudgeSession = async () => {
-        try {
-          await client.session.delete({ 
-            path: { id: judgeSession.id },
-            query: { directory }
-          })
-        } catch (e) {
-          // Log deletion failures for debugging (but don't break the flow)
-          console.error(`[Reflection] Failed to delete judge session ${judgeSession.id}:`, e)
-        } finally {
-          judgeSessionIds.delete(judgeSession.id)
+      let result: { verdict?: Verdict; error?: string; modelFailed?: boolean }
+      try {
+        const modelOptions: JudgeModelOptions = {
+          ...(model ? { model: parseModelId(model) } : {}),
+          ...(cfg.judgeAgent ? { agent: cfg.judgeAgent } : {})
         }
+        const { error: promptError } = await client.session.promptAsync({
+          path: { id: judgeSession.id },
+          body: { ...modelOptions, parts: [{ type: "text", text: prompt }] }
+        })
+        if (promptError) {
+          const message = "name" in promptError ? promptError.data.message : undefined
+          lastError = `${model || "default model"}: ${message || "prompt rejected"}`
+          await log("warn", "judge model failed", { judgeSessionId: judgeSession.id, model, error: lastError })
+          continue
+        }
+
+        result = await getVerdict(judgeSession.id, cfg, modelOptions, abort)
+      } finally {
+        // Always clean up judge session to prevent clutter in /session list
+        usage = addUsage(usage, await cleanupJudgeSession(judgeSession.id))
       }
+      if (!result.modelFailed) return { verdict: result.verdict, error: result.error, model, usage }
+      lastError = `${model || "default model"}: ${result.error}`
+      await log("warn", "judge model failed", { judgeSessionId: judgeSession.id, model, error: lastError })
+    }
+    return { error: lastError, usage }
+  }
 
+  /**
+   * Run panelSize judges in parallel and aggregate their verdicts.
+   * Jurors that fail are recorded but don't vote.
+   */
+  async function runPanel(
+    prompt: string,
+    cfg: ReflectionConfig,
+    abort: AbortSignal
+  ): Promise<{ verdict?: Verdict; error?: string; votes: PanelVote[]; usage: JudgeUsage }> {
+    const jurors = Array.from({ length: cfg.panelSize }, (_, i) => cfg.panelModels[i] || cfg.judgeModel)
+    let usage = emptyUsage()
+    const votes = await Promise.all(jurors.map(async (model): Promise<PanelVote> => {
       try {
-        const agents = await getAgentsFile()
-        const prompt = `TASK VERIFICATION - Release Manager Protocol
+        const result = await runJudge(prompt, cfg, abort, model)
+        usage = addUsage(usage, result.usage)
+        return { model: result.model, verdict: result.verdict || null, error: result.error }
+      } catch (e) {
+        return { model, verdict: null, error: e instanceof Error ? e.message : String(e) }
+      }
+    }))
+    const verdicts = votes.map(v => v.verdict).filter((v): v is Verdict => v !== null)
+    if (abort.aborted) return { error: CANCELLED, votes, usage }
+    if (verdicts.length === 0) {
+      return { error: `all ${jurors.length} judges failed: ${votes.map(v => v.error).join("; ")}`, votes, usage }
+    }
+    return { verdict: aggregateVerdicts(verdicts, cfg.panelStrategy), votes, usage }
+  }
 
-You are a release manager with risk ownership. Evaluate whether the task is complete and ready for release.
+  /**
+   * Diff since the session's task started. Without a recorded baseline
+   * (plugin loaded mid-task), falls back to uncommitted changes against HEAD.
+   */
+  async function getTaskDiff(sessionId: string, cfg: ReflectionConfig): Promise<DiffSummary | null> {
+    let baseline = gitBaselines.get(sessionId) || null
+    if (!baseline) {
+      try {
+        const head = (await git(directory, ["rev-parse", "HEAD"])).trim()
+        baseline = { commit: head, untracked: [] }
+      } catch {
+        return null
+      }
+    }
+    return computeDiff(directory, baseline, cfg.diffMaxChars)
+  }
 
-${agents ? `## Project Instructions\n${agents.slice(0, 1500)}\n` : ""}
-## Original Task
-${extracted.task}
+  /**
+   * Send feedback to the agent and count it as an attempt on its task
+   */
+  async function sendFeedback(sessionId: string, feedback: PendingFeedback): Promise<void> {
+    const session = await getSessionState(sessionId)
+    session.attempts[feedback.humanMsgCount] = (session.attempts[feedback.humanMsgCount] || 0) + 1
+    session.updatedAt = Date.now()
+    await saveState()
+    await client.session.promptAsync({
+      path: { id: sessionId },
+      body: { parts: [pluginTextPart(feedback.text, "feedback")] }
+    })
+  }
 
-## Tools Used
-${extracted.tools || "(none)"}
+  /**
+   * "ask" mode: show the feedback in the session and wait for /reflection send or dismiss
+   */
+  async function holdFeedback(sessionId: string, feedback: PendingFeedback, cfg: ReflectionConfig): Promise<void> {
+    clearPendingFeedback(sessionId)
+    pendingFeedback.set(sessionId, feedback)
+    if (cfg.askTimeout > 0) {
+      feedback.timer = setTimeout(async () => {
+        if (pendingFeedback.get(sessionId) !== feedback) return
+        clearPendingFeedback(sessionId)
+        await log("info", "held feedback auto-sent", { sessionId })
+        try {
+          await sendFeedback(sessionId, feedback)
+        } catch (e) {
+          await log("error", "held feedback send failed", { sessionId, ...errorFields(e) })
+        }
+      }, cfg.askTimeout)
+    }
+    const autoSend = cfg.askTimeout > 0 ? ` It will be sent automatically in ${Math.round(cfg.askTimeout / 1000)}s.` : ""
+    await postNotice(sessionId, `## Reflection: Awaiting Approval [${feedback.severity}]
 
-## Agent's Response
-${extracted.result.slice(0, 2000)}
+The judge found the task incomplete. Run \`/reflection send\` to send this feedback to the agent, or \`/reflection dismiss\` to drop it.${autoSend}
 
----
+${feedback.text}`)
+  }
 
-## Evaluation Rules
+  function clearPendingFeedback(sessionId: string): void {
+    const pending = pendingFeedback.get(sessionId)
+    if (pending?.timer) clearTimeout(pending.timer)
+    pendingFeedback.delete(sessionId)
+  }
 
-### Severity Levels
-- BLOCKER: security, auth, billing/subscription, data loss, E2E broken, prod health broken → complete MUST be false
-- HIGH: major functionality degraded, CI red without approved waiver
-- MEDIUM: partial degradation or uncertain coverage
-- LOW: cosmetic / non-impacting
-- NONE: no issues
+  /**
+   * Gather evidence (diff, verification, subagents), run the judge or panel and save the result in .reflection/
+   */
+  async function judgeTask(
+    sessionId: string,
+    session: SessionState,
+    humanMsgCount: number,
+    messages: SessionMessage[],
+    extracted: { task: string; result: string; tools: string },
+    rubric: { title: string; template: string },
+    taskType: TaskType | undefined,
+    diff: DiffSummary | null | undefined,
+    cfg: ReflectionConfig,
+    runLog: RunLog,
+    abort: AbortSignal
+  ): Promise<{ verdict?: Verdict; error?: string; model?: string; cacheable: boolean }> {
+    const agents = await getAgentsFile()
 
-### Hard Requirements (must ALL be met for complete:true)
-1. All explicitly requested functionality implemented
-2. Tests run and pass (if tests were requested or exist)
-3. Build/compile succeeds (if applicable)
-4. No unhandled errors in output
+    // Run verification commands ourselves rather than trusting the agent's claims.
+    // The question label is a heuristic, so for questions the commands still run but only advise the judge
+    const verification: VerificationResult[] = []
+    const commands = cfg.verifyCommands.map(normalizeVerifyCommand)
+    if (taskType === "question" && commands.some(entry => entry.required)) {
+      await runLog("debug", "verification advisory", { taskType })
+      for (const entry of commands) entry.required = false
+    }
+    for (const entry of commands) {
+      if (abort.aborted) return { error: CANCELLED, cacheable: false }
+      verification.push(await runVerifyCommand(directory, entry, cfg.toolOutputMaxChars, abort))
+    }
+    if (abort.aborted) return { error: CANCELLED, cacheable: false }
+    const hardFailures = verification.filter(r => r.required && !verificationPassed(r))
+    if (hardFailures.length) {
+      await runLog("info", "verification failed", { commands: hardFailures.map(r => r.command) })
+    }
 
-### Evidence Requirements
-Every claim needs evidence. Reject claims like "ready", "verified", "working", "fixed" without:
-- Actual command output showing success
-- Test name + result
-- File changes made
+    const children = await collectChildren(sessionId, latestHumanMessageTime(messages), cfg)
 
-### Flaky Test Protocol
-If a test is called "flaky" or "unrelated", require at least ONE of:
-- Rerun with pass (show output)
-- Quarantine/skip with tracking ticket
-- Replacement test validating same requirement
-- Stabilization fix applied
-Without mitigation → severity >= HIGH, complete: false
+    const prompt = buildJudgePrompt(rubric, {
+      task: extracted.task,
+      tools: extracted.tools || "(none)",
+      result: extracted.result.slice(0, cfg.resultMaxChars),
+      agents: agents ? agents.slice(0, cfg.agentsMaxChars) : "(none)",
+      diff: cfg.includeDiff ? formatDiff(diff ?? null) : "(not included)",
+      verification: formatVerification(verification),
+      children: formatChildren(children),
+      taskType: taskType || "not classified",
+      evidence: taskType ? bulletList(TASK_TYPE_EVIDENCE[taskType]) : "(see the rules below)"
+    })
 
-### Waiver Protocol
-If a required gate failed but agent claims ready, response MUST include:
-- Explicit waiver statement ("shipping with known issue X")
-- Impact scope ("affects Y users/flows")
-- Mitigation/rollback plan
-- Follow-up tracking (ticket/issue reference)
-Without waiver details → complete: false
+    // A red required gate is incomplete no matter what the judge would say
+    const judged: { verdict?: Verdict; error?: string; model?: string; votes?: PanelVote[]; usage?: JudgeUsage } = hardFailures.length
+      ? { verdict: verificationVerdict(hardFailures) }
+      : cfg.panelSize > 1 ? await runPanel(prompt, cfg, abort) : await runJudge(prompt, cfg, abort)
+    const { error } = judged
+    if (judged.usage?.replies) {
+      await recordUsage(session, judged.usage)
+      await runLog("info", "judge usage", { ...judged.usage })
+    }
+    // Unfinished subagent work keeps the parent incomplete
+    const verdict = judged.verdict && rollUpChildren(judged.verdict, children)
+    if (verdict && judged.verdict && verdict !== judged.verdict) {
+      await runLog("info", "child roll-up", { children: children.filter(c => c.verdict && !c.verdict.complete).map(c => c.id) })
+    }
 
-### Temporal Consistency
-Reject if:
-- Readiness claimed before verification ran
-- Later output contradicts earlier "done" claim
-- Failures downgraded after-the-fact without new evidence
+    // Save reflection data to .reflection/ directory
+    await saveReflectionData(sessionId, {
+      humanMsgCount,
+      taskType,
+      task: extracted.task,
+      result: extracted.result.slice(0, cfg.resultMaxChars),
+      tools: extracted.tools || "(none)",
+      prompt,
+      verdict: verdict || null,
+      error,
+      judgeModel: judged.model,
+      diff,
+      verification: verification.length ? verification : undefined,
+      panel: judged.votes ? { strategy: cfg.panelStrategy, votes: judged.votes } : undefined,
+      children: children.length ? children.map(c => ({ id: c.id, title: c.title, verdict: c.verdict })) : undefined,
+      usage: judged.usage?.replies ? judged.usage : undefined,
+      timestamp: new Date().toISOString()
+    })
 
----
+    // Verdicts forced by failing verification commands aren't cached - a flaky command may pass next time
+    return { verdict, error, model: judged.model, cacheable: hardFailures.length === 0 }
+  }
 
-Reply with JSON only (no other text):
-{
-  "complete": true/false,
-  "severity": "NONE|LOW|MEDIUM|HIGH|BLOCKER",
-  "feedback": "brief explanation of verdict",
-  "missing": ["list of missing required steps or evidence"],
-  "next_actions": ["concrete commands or checks to run"]
-}`
+  // Remember a judge verdict for identical inputs
+  async function cacheVerdict(key: string, verdict: Verdict, judgeModel?: string): Promise<void> {
+    const current = await getState()
+    current.verdicts = { ...current.verdicts, [key]: { verdict, judgeModel, savedAt: Date.now() } }
+    await saveState()
+  }
 
-        await client.session.promptAsync({
-          path: { id: judgeSession.id },
-          body: { parts: [{ type: "text", text: prompt }] }
-        })
+  /**
+   * Reflect once the session has stayed idle for settleDelay - another idle restarts the wait,
+   * new activity (cancelScheduledReflection) drops it
+   */
+  async function scheduleReflection(sessionId: string): Promise<void> {
+    const cfg = await getConfig()
+    cancelScheduledReflection(sessionId)
+    if (!cfg.settleDelay) {
+      enqueueReflection(sessionId)
+      return
+    }
+    settleTimers.set(sessionId, setTimeout(() => {
+      settleTimers.delete(sessionId)
+      enqueueReflection(sessionId)
+    }, cfg.settleDelay))
+  }
 
-        const response = await waitForResponse(judgeSession.id)
-        
-        if (!response) {
-          // Timeout - mark this task as reflected to avoid infinite retries
-          lastReflectedMsgCount.set(sessionId, humanMsgCount)
-          return
-        }
+  // Returns true if a settling or queued reflection was dropped
+  function cancelScheduledReflection(sessionId: string): boolean {
+    const timer = settleTimers.get(sessionId)
+    if (timer) clearTimeout(timer)
+    settleTimers.delete(sessionId)
+    const queued = reflectionQueue.indexOf(sessionId)
+    if (queued >= 0) reflectionQueue.splice(queued, 1)
+    return timer !== undefined || queued >= 0
+  }
 
-        const jsonMatch = response.match(/\{[\s\S]*\}/)
-        if (!jsonMatch) {
-          lastReflectedMsgCount.set(sessionId, humanMsgCount)
-          return
+  function enqueueReflection(sessionId: string): void {
+    if (!reflectionQueue.includes(sessionId)) reflectionQueue.push(sessionId)
+    drainReflectionQueue()
+  }
+
+  // runReflection adds to activeReflections synchronously, so the size check holds within the loop
+  function drainReflectionQueue(): void {
+    while (reflectionQueue.length && activeReflections.size < config.maxConcurrent) {
+      const sessionId = reflectionQueue.shift()!
+      startReflection(sessionId).finally(drainReflectionQueue)
+    }
+  }
+
+  // Start a reflection, or join the one already running for the session
+  function startReflection(sessionId: string): Promise<void> {
+    const running = reflectionRuns.get(sessionId)
+    if (running) return running
+    const run = runReflection(sessionId).finally(() => reflectionRuns.delete(sessionId))
+    reflectionRuns.set(sessionId, run)
+    return run
+  }
+
+  /**
+   * Finish a subagent's reflection before its parent reads the verdict: one that is settling or queued
+   * runs now, in the parent's slot (it could wait behind the parent forever otherwise), one already running is awaited
+   */
+  async function settleChildReflection(childId: string): Promise<void> {
+    if (cancelScheduledReflection(childId)) await startReflection(childId)
+    else await reflectionRuns.get(childId)
+  }
+
+  // The user or agent is active again - the session isn't done, so don't judge it yet
+  async function deferReflection(sessionId: string, reason: string): Promise<void> {
+    if (cancelScheduledReflection(sessionId)) {
+      await log("debug", "reflection deferred", { sessionId, reason })
+    }
+  }
+
+  // Stop an in-flight reflection - its judge session is deleted and its verdict discarded
+  async function abortReflection(sessionId: string, reason: string): Promise<void> {
+    const abort = reflectionAborts.get(sessionId)
+    if (!abort || abort.signal.aborted) return
+    abort.abort(reason)
+    await log("info", "reflection cancelled", { sessionId, reason })
+  }
+
+  async function runReflection(sessionId: string): Promise<void> {
+    // Every log entry from this run shares the session ID and a run ID
+    const runId = `${sessionId.slice(-6)}-${Date.now().toString(36)}`
+    const runLog: RunLog = (level, event, fields = {}) => log(level, event, { sessionId, runId, ...fields })
+    const skip = (reason: string, fields: Record<string, unknown> = {}) =>
+      runLog("info", "skip", { reason, ...fields })
+
+    // Prevent concurrent reflections on same session
+    if (activeReflections.has(sessionId)) {
+      await runLog("debug", "skip", { reason: "already running" })
+      return
+    }
+    activeReflections.add(sessionId)
+    const abort = new AbortController()
+    reflectionAborts.set(sessionId, abort)
+
+    let cfg: ReflectionConfig = config
+    try {
+      cfg = await getConfig()
+      if (!cfg.enabled) {
+        await runLog("debug", "skip", { reason: "disabled" })
+        return
+      }
+
+      // Budget ceiling: once the project's judge spend reaches it, reflection stays off
+      const spent = (await getState()).usage?.cost || 0
+      if (cfg.budgetUsd !== undefined && spent >= cfg.budgetUsd) {
+        await skip("budget exceeded", { spent, budgetUsd: cfg.budgetUsd })
+        if (!budgetToastShown) {
+          budgetToastShown = true
+          await showToast(`Reflection budget reached ($${spent.toFixed(2)} of $${cfg.budgetUsd}) - reflection is off`, "warning")
         }
+        return
+      }
+
+      // Get messages first - needed for all checks
+      const { data: messages } = await client.session.messages({ path: { id: sessionId } })
+      if (!messages || messages.length < 2) {
+        await runLog("debug", "skip", { reason: "no conversation yet" })
+        return
+      }
+
+      // Load persisted state so aborts recorded before a restart are known
+      await getState()
+
+      // Skip if session was aborted/cancelled by user (Esc key) - check FIRST
+      if (wasSessionAborted(sessionId, messages)) {
+        await markAborted(sessionId)
+        await skip("aborted")
+        return
+      }
+
+      // Skip judge sessions
+      const info = await getSessionInfo(sessionId)
+      if (isJudgeSession(sessionId, info)) {
+        await skip("judge session")
+        return
+      }
+
+      // Subagent sessions are judged only on request; the parent's verdict covers them otherwise
+      if (info?.parentID && !cfg.judgeChildSessions) {
+        await skip("child session", { parentId: info.parentID })
+        return
+      }
+
+      // Feedback held for approval - nothing to do until the user decides
+      if (pendingFeedback.has(sessionId)) {
+        await runLog("debug", "skip", { reason: "awaiting approval" })
+        return
+      }
+
+      // Persisted attempts and completion marks survive restarts
+      const session = await getSessionState(sessionId)
+
+      // Count human messages to determine current "task"
+      const humanMsgCount = countHumanMessages(messages)
+      if (humanMsgCount === 0) {
+        await skip("no human message")
+        return
+      }
+
+      // Check if we already completed reflection for this exact message count
+      if (humanMsgCount <= session.lastReflected) {
+        // Already handled this task
+        await runLog("debug", "skip", { reason: "already reflected", humanMsgCount })
+        return
+      }
+
+      // Get attempt count for THIS specific task (session + message count)
+      const attemptCount = session.attempts[humanMsgCount] || 0
+
+      // Max attempts for this task - mark as reflected, summarize what's left and stop
+      const giveUp = async (maxAttempts: number) => {
+        await markReflected(session, humanMsgCount)
+        await skip("max attempts", { humanMsgCount, attempts: attemptCount })
+        const report = await writeTaskReport(sessionId, humanMsgCount, cfg, attemptCount, maxAttempts)
+        await showToast(`Max attempts (${maxAttempts}) reached${report ? ` - see ${report}` : ""}`, "warning")
+      }
+
+      // Severities can allow more attempts than maxAttempts - the verdict decides which limit applies
+      const limit = attemptLimit(cfg.severityPolicy, cfg.maxAttempts)
+      if (attemptCount >= limit) {
+        await giveUp(limit)
+        return
+      }
 
-        const verdict = JSON.parse(jsonMatch[0])
+      // Extract task info
+      const extracted = extractTaskAndResult(messages, cfg)
+      if (!extracted) {
+        await skip("no task or result")
+        return
+      }
+      // The diff also tells the classifier whether anything changed - tool calls alone miss edits made by scripts
+      const diff = cfg.includeDiff || cfg.classifyTasks ? await getTaskDiff(sessionId, cfg) : undefined
+      const changed = extracted.editedFiles || hasChanges(diff)
+      const taskType = cfg.classifyTasks ? classifyTask(extracted.request, changed) : undefined
+      await runLog("info", "start", { humanMsgCount, attempt: attemptCount + 1, taskType })
 
-        // Save reflection data to .reflection/ directory
+      const rubric = await getPromptTemplate(cfg, taskType)
+      // Identical inputs reuse the stored verdict instead of paying for a new judge session
+      const cacheKey = cfg.cacheVerdicts ? verdictFingerprint(extracted, rubric.template) : null
+      const cached = cacheKey ? (await getState()).verdicts?.[cacheKey] : undefined
+      if (cached) {
+        await runLog("info", "cache hit", { fingerprint: cacheKey })
+        // Recorded like a judged verdict so history and the max-attempts report include it
         await saveReflectionData(sessionId, {
+          humanMsgCount,
+          taskType,
           task: extracted.task,
-          result: extracted.result.slice(0, 2000),
+          result: extracted.result.slice(0, cfg.resultMaxChars),
           tools: extracted.tools || "(none)",
-          prompt,
-          verdict,
+          verdict: cached.verdict,
+          cached: true,
+          judgeModel: cached.judgeModel,
           timestamp: new Date().toISOString()
         })
+      }
+      const judged = cached
+        ? { verdict: cached.verdict, model: cached.judgeModel, cacheable: false }
+        : await judgeTask(
+          sessionId, session, humanMsgCount, messages, extracted, rubric, taskType,
+          cfg.includeDiff ? diff : undefined, cfg, runLog, abort.signal
+        )
+      const { verdict, error } = judged
+      if (verdict && cacheKey && judged.cacheable) await cacheVerdict(cacheKey, verdict, judged.model)
+
+      // The user stepped in while the judge was working - leave the task unreflected for the next idle
+      if (abort.signal.aborted) {
+        await skip("cancelled", { cause: abort.signal.reason })
+        return
+      }
+      const { data: latest } = await client.session.messages({ path: { id: sessionId } })
+      if (countHumanMessages(latest || []) !== humanMsgCount) {
+        await skip("stale verdict", { humanMsgCount })
+        return
+      }
+
+      if (!verdict) {
+        // Timeout or unusable verdict - mark this task as reflected to avoid infinite retries
+        await markReflected(session, humanMsgCount)
+        const reason = error?.includes("timed out") ? "timeout" : error?.includes("after repair") ? "parse failure" : "judge error"
+        await skip(reason, { error })
+        await showToast(`Reflection skipped: ${error}`, "warning")
+        return
+      }
 
-        // Normalize severity and enforce BLOCKER rule
-        const severity = verdict.severity || "MEDIUM"
-        const isBlocker = severity === "BLOCKER"
-        const isComplete = verdict.complete && !isBlocker
+      // The severity policy decides what the verdict means - by default BLOCKER is never accepted
+      const severity = verdict.severity
+      const rule = severityRule(verdict, cfg.severityPolicy, cfg.maxAttempts)
+      const isComplete = rule.action === "accept" || rule.action === "warn"
+      await runLog("info", "verdict", { complete: isComplete, severity, action: rule.action, judgeModel: judged.model })
 
-        if (isComplete) {
-          // COMPLETE: mark this task as reflected, show toast only (no prompt!)
-          lastReflectedMsgCount.set(sessionId, humanMsgCount)
-          attempts.delete(attemptKey)
+      if (isComplete) {
+        // COMPLETE: mark this task as reflected, show toast only (no prompt!)
+        await markReflected(session, humanMsgCount)
+        if (rule.action === "warn") {
+          const open = verdict.missing[0] || verdict.feedback
+          await showToast(`Task accepted with ${severity} issues${open ? `: ${open}` : ""}`, "warning")
+        } else {
           const toastMsg = severity === "NONE" ? "Task complete ✓" : `Task complete ✓ (${severity})`
           await showToast(toastMsg, "success")
-        } else {
-          // INCOMPLETE: increment attempts and send feedback
-          attempts.set(attemptKey, attemptCount + 1)
-          const toastVariant = isBlocker ? "error" : "warning"
-          await showToast(`${severity}: Incomplete (${attemptCount + 1}/${MAX_ATTEMPTS})`, toastVariant)
-          
-          // Build structured feedback message
-          const missing = verdict.missing?.length 
-            ? `\n### Missing\n${verdict.missing.map((m: string) => `- ${m}`).join("\n")}`
-            : ""
-          const nextActions = verdict.next_actions?.length
-            ? `\n### Next Actions\n${verdict.next_actions.map((a: string) => `- ${a}`).join("\n")}`
-            : ""
-          
-          await client.session.promptAsync({
-            path: { id: sessionId },
-            body: {
-              parts: [{
-                type: "text",
-                text: `## Reflection: Task Incomplete (${attemptCount + 1}/${MAX_ATTEMPTS}) [${severity}]
-
-${verdict.feedback || "Please review and complete the task."}${missing}${nextActions}
-
-Please address the above and continue.`
-              }]
-            }
-          })
-          // Don't mark as reflected yet - we want to check again after agent responds
         }
-      } finally {
-        // Always clean up judge session to prevent clutter in /session list
-        await cleanupJudgeSession()
+      } else if (info?.parentID) {
+        // INCOMPLETE subagent: its task tool has already returned, so the verdict rolls up into the parent instead
+        await markReflected(session, humanMsgCount)
+        await runLog("info", "child verdict recorded", { parentId: info.parentID })
+      } else if (attemptCount >= rule.maxAttempts) {
+        await giveUp(rule.maxAttempts)
+      } else {
+        // INCOMPLETE: send feedback (or hold it for approval) and count the attempt when sent
+        const toastVariant = severity === "BLOCKER" ? "error" : "warning"
+
+        // Feedback escalates with each attempt - see feedbackStrategies
+        const attempt = attemptCount + 1
+        const strategy = strategyForAttempt(attempt, rule.maxAttempts, cfg.feedbackStrategies)
+        await runLog("info", "feedback", { attempt, strategy })
+        const feedback: PendingFeedback = {
+          text: formatFeedback(verdict, strategy, attempt, rule.maxAttempts),
+          severity,
+          humanMsgCount
+        }
+
+        if (rule.action === "ask" || cfg.feedbackMode === "ask") {
+          await holdFeedback(sessionId, feedback, cfg)
+          await showToast(`${severity}: Incomplete - /reflection send or /reflection dismiss`, toastVariant)
+          return
+        }
+        await showToast(`${severity}: Incomplete (${attempt}/${rule.maxAttempts})`, toastVariant)
+        await sendFeedback(sessionId, feedback)
+        // Don't mark as reflected yet - we want to check again after agent responds
       }
-    } catch {
+    } catch (e) {
       // On error, don't mark as reflected - allow retry
+      await runLog("error", "reflection failed", errorFields(e))
+      if (cfg.toastOnError) {
+        await showToast(`Reflection failed: ${e instanceof Error ? e.message : String(e)}`, "error")
+      }
     } finally {
       activeReflections.delete(sessionId)
+      reflectionAborts.delete(sessionId)
     }
   }
 
   return {
+    config: async (config) => {
+      // Register /reflection so it shows up in the command palette; handled via command.executed
+      config.command = config.command || {}
+      config.command.reflection = {
+        template: "The /reflection command ($ARGUMENTS) was handled by the reflection plugin. Reply with a one-line acknowledgement only.",
+        description: "Reflection: /reflection [all] [complete|incomplete] [severity] | show <n> | send | dismiss | cost"
+      }
+    },
+
+    // A new human message starts a new task - snapshot the working tree so the judge sees only this task's changes
+    "chat.message": async (input, output) => {
+      if (judgeSessionIds.has(input.sessionID)) return
+      // Tag /reflection and /tts prompts so neither they nor the agent's reply are judged
+      if (output.parts.some(part => part.type === "text" && COMMAND_PROMPT.test(part.text || ""))) {
+        pluginCommandMessages.add(output.message.id)
+        for (const part of output.parts) {
+          if (part.type === "text") part.metadata = { ...part.metadata, [PLUGIN_METADATA_KEY]: "command" }
+        }
+        return
+      }
+      if (output.parts.some(isPluginPart)) return
+      await deferReflection(input.sessionID, "new human message")
+      await abortReflection(input.sessionID, "new human message")
+      // The user moved on - held feedback for the previous task no longer applies
+      if (pendingFeedback.has(input.sessionID)) {
+        clearPendingFeedback(input.sessionID)
+        await log("info", "held feedback dropped", { sessionId: input.sessionID, reason: "new human message" })
+      }
+      const cfg = await getConfig()
+      if (!cfg.enabled || !(cfg.includeDiff || cfg.classifyTasks)) return
+      const baseline = await captureGitBaseline(directory)
+      if (baseline) gitBaselines.set(input.sessionID, baseline)
+    },
+
     event: async ({ event }) => {
+      // Wake a waiting judge as soon as its reply finishes instead of waiting for the next poll
+      if (event.type === "message.updated") {
+        const info = event.properties.info
+        if (info.role === "assistant" && judgeSessionIds.has(info.sessionID) && (info.time.completed || info.error)) {
+          signalJudge(info.sessionID)
+        }
+        return
+      }
+      if (event.type === "session.idle" || event.type === "session.error") {
+        const judgeId = event.properties.sessionID
+        if (judgeId && judgeSessionIds.has(judgeId)) {
+          signalJudge(judgeId)
+          return
+        }
+      }
+
+      if (event.type === "command.executed") {
+        const { name, sessionID, arguments: args, messageID } = event.properties
+        if (!PLUGIN_COMMANDS.includes(name)) return
+        if (messageID) pluginCommandMessages.add(messageID)
+        if (name === "reflection") {
+          try {
+            await handleReflectionCommand(sessionID, args || "")
+          } catch (e) {
+            await log("error", "command failed", { sessionId: sessionID, ...errorFields(e) })
+            await showToast("Reflection command failed", "error")
+          }
+        }
+        return
+      }
+
+      if (event.type === "session.status") {
+        if (event.properties.status.type === "busy") {
+          await deferReflection(event.properties.sessionID, "busy")
+        }
+        return
+      }
+
       // Track aborted sessions immediately when session.error fires
       if (event.type === "session.error") {
-        const props = (event as any).properties
-        const sessionId = props?.sessionID
-        const error = props?.error
+        const { sessionID: sessionId, error } = event.properties
         if (sessionId && error?.name === "MessageAbortedError") {
-          abortedSessions.add(sessionId)
+          await markAborted(sessionId)
+          cancelScheduledReflection(sessionId)
+          await abortReflection(sessionId, "session aborted")
         }
       }
       
       if (event.type === "session.idle") {
-        const sessionId = (event as any).properties?.sessionID
-        if (sessionId && typeof sessionId === "string") {
-          // Fast path: skip if already known to be aborted or a judge session
-          if (abortedSessions.has(sessionId)) return
-          if (judgeSessionIds.has(sessionId)) return
-          await runReflection(sessionId)
-        }
+        const sessionId = event.properties.sessionID
+        // Fast path: skip if already known to be aborted or a judge session
+        if (abortedSessions.has(sessionId)) return
+        if (judgeSessionIds.has(sessionId)) return
+        await scheduleReflection(sessionId)
       }
     }
   }
@@ -2,11 +2,16 @@
  * Tests for OpenCode Reflection Plugin
  */
 
-import { describe, it, before } from "node:test"
+import { describe, it, before, after } from "node:test"
 import assert from "node:assert"
-import { readFile } from "fs/promises"
+import { readFile, writeFile, mkdir, mkdtemp, readdir, rm, utimes } from "fs/promises"
 import { join, dirname } from "path"
+import { tmpdir } from "os"
 import { fileURLToPath } from "url"
+import { execFileSync } from "child_process"
+import type { Hooks, PluginInput } from "@opencode-ai/plugin"
+import type { Event } from "@opencode-ai/sdk"
+import { listReflections } from "../reflection-history.ts"
 
 const __dirname = dirname(fileURLToPath(import.meta.url))
 
@@ -87,7 +92,7 @@ describe("Reflection Plugin - Structure Validation", () => {
 
   it("has judge session tracking", () => {
     assert.ok(pluginContent.includes("judgeSessionIds"), "Missing judgeSessionIds set")
-    assert.ok(pluginContent.includes("lastReflectedMsgCount"), "Missing lastReflectedMsgCount map")
+    assert.ok(pluginContent.includes("lastReflected"), "Missing lastReflected tracking")
   })
 
   it("has attempt limiting", () => {
@@ -108,7 +113,7 @@ describe("Reflection Plugin - Structure Validation", () => {
   })
 
   it("cleans up sessions", () => {
-    assert.ok(pluginContent.includes("lastReflectedMsgCount.set"), "Missing reflection tracking")
+    assert.ok(pluginContent.includes("markReflected("), "Missing reflection tracking")
     assert.ok(pluginContent.includes("judgeSessionIds.add"), "Missing judge session tracking")
   })
 
@@ -137,9 +142,9 @@ describe("Reflection Plugin - Enhanced Prompt Features", () => {
   })
 
   it("enforces BLOCKER rule", () => {
-    // BLOCKER severity should force complete to false
-    assert.ok(pluginContent.includes("isBlocker"), "Missing BLOCKER enforcement logic")
-    assert.ok(pluginContent.includes('severity === "BLOCKER"'), "Missing BLOCKER check")
+    // BLOCKER severity should force complete to false - see "Severity Policy" below for the runtime check
+    assert.ok(pluginContent.includes("BLOCKER: security, auth"), "Missing BLOCKER rule in prompt")
+    assert.ok(pluginContent.includes("complete MUST be false"), "Missing BLOCKER enforcement rule")
   })
 
   it("includes evidence requirements in prompt", () => {
@@ -183,3 +188,1294 @@ describe("Reflection Plugin - Enhanced Prompt Features", () => {
     assert.strictEqual(isComplete, false, "BLOCKER should block completion")
   })
 })
+
+// ==================== PLUGIN HARNESS ====================
+// The tests below drive the real plugin: a fake OpenCode client records what it sends,
+// judge sessions answer with scripted verdicts, and results are read back from .reflection/
+
+// The plugin reads ~/.config/opencode/reflection.json - point HOME at a scratch directory before loading it
+const scratchHome = await mkdtemp(join(tmpdir(), "reflection-home-"))
+process.env.HOME = scratchHome
+const { ReflectionPlugin } = await import("../reflection.ts")
+
+type FakePart = Record<string, any>
+type FakeMessage = { info: Record<string, any>; parts: FakePart[] }
+
+// What a judge session answers: a verdict text, several replies, a model error, or null to never answer
+type JudgeReply = string | string[] | { error: string } | null
+
+interface JudgeCall {
+  sessionId: string
+  text: string
+  body: Record<string, any>
+  turn: number           // 0 for the judge prompt, 1 for a repair request
+}
+
+interface PostedMessage {
+  sessionId: string
+  text: string
+  noReply: boolean
+  kind?: string          // Part metadata set by the plugin: feedback, notice or command
+}
+
+interface HarnessOptions {
+  config?: Record<string, unknown>
+  judge?: (call: JudgeCall) => JudgeReply | Promise<JudgeReply>
+  judgeCost?: number
+  directory?: string
+}
+
+// Fast timings so every run ends in milliseconds; tests override what they exercise
+const TEST_CONFIG = {
+  settleDelay: 0,
+  includeDiff: false,
+  pollInterval: 20,
+  judgeResponseTimeout: 2000,
+  logLevel: "debug"
+}
+
+// Log events that end a reflection run
+const RUN_END = ["verdict", "skip", "reflection failed"]
+
+let clock = 1_000
+
+function user(text: string, extraParts: FakePart[] = []): FakeMessage {
+  clock++
+  return { info: { id: `msg_${clock}`, role: "user", time: { created: clock } }, parts: [{ type: "text", text }, ...extraParts] }
+}
+
+function assistant(text: string, tools: FakePart[] = [], info: Record<string, any> = {}): FakeMessage {
+  clock++
+  return {
+    info: { id: `msg_${clock}`, role: "assistant", time: { created: clock, completed: clock }, ...info },
+    parts: [...tools, { type: "text", text }]
+  }
+}
+
+function tool(name: string, output: string, exit?: number): FakePart {
+  return { type: "tool", tool: name, state: { status: "completed", input: {}, output, metadata: exit === undefined ? {} : { exit } } }
+}
+
+function verdict(complete: boolean, severity = complete ? "NONE" : "HIGH", extra: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    complete,
+    severity,
+    feedback: complete ? "Looks done" : "Tests were not run",
+    missing: complete ? [] : ["Test output"],
+    next_actions: complete ? [] : ["Run npm test"],
+    ...extra
+  })
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+async function waitFor<T>(check: () => T | Promise<T>, what: string, timeout = 3000): Promise<NonNullable<T>> {
+  const deadline = Date.now() + timeout
+  while (Date.now() < deadline) {
+    const value = await check()
+    if (value) return value
+    await delay(10)
+  }
+  throw new Error(`Timed out waiting for ${what}`)
+}
+
+async function writeConfig(directory: string, config: Record<string, unknown> = {}): Promise<void> {
+  const path = join(directory, ".opencode", "reflection.json")
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, JSON.stringify({ ...TEST_CONFIG, ...config }))
+  // Bump the mtime so a rewrite within the same millisecond still counts as a change
+  const stamp = new Date(Date.now() + ++clock)
+  await utimes(path, stamp, stamp)
+}
+
+const tempDirs: string[] = [scratchHome]
+after(async () => {
+  for (const dir of tempDirs) await rm(dir, { recursive: true, force: true })
+})
+
+async function createHarness(options: HarnessOptions = {}) {
+  const dir = options.directory ?? await mkdtemp(join(tmpdir(), "reflection-test-"))
+  if (!options.directory) tempDirs.push(dir)
+  await writeConfig(dir, options.config)
+
+  const sessions = new Map<string, { info: Record<string, any>; messages: FakeMessage[] }>()
+  const toasts: { message: string; variant: string }[] = []
+  const posted: PostedMessage[] = []
+  const judgeCalls: JudgeCall[] = []
+  const judgeSessions: string[] = []
+  const judgeTitles: string[] = []
+  const deleted: string[] = []
+  let hooks: Hooks = {}
+
+  async function answerJudge(call: JudgeCall): Promise<void> {
+    try {
+      const reply = await (options.judge ?? (() => verdict(true)))(call)
+      const session = sessions.get(call.sessionId)
+      if (reply === null || !session) return
+      const usage = options.judgeCost
+        ? { cost: options.judgeCost, tokens: { input: 1000, output: 100, reasoning: 0, cache: { read: 0, write: 0 } } }
+        : {}
+      if (typeof reply === "object" && !Array.isArray(reply)) {
+        session.messages.push(assistant("", [], { error: { name: "APIError", data: { message: reply.error } } }))
+      } else {
+        for (const text of typeof reply === "string" ? [reply] : reply) {
+          session.messages.push(assistant(text, [], { sessionID: call.sessionId, ...usage }))
+        }
+      }
+      const last = session.messages[session.messages.length - 1]
+      await hooks.event?.({ event: { type: "message.updated", properties: { info: { sessionID: call.sessionId, ...last.info } } } as Event })
+    } catch {}
+  }
+
+  const client = {
+    session: {
+      get: async ({ path }: { path: { id: string } }) => ({ data: sessions.get(path.id)?.info }),
+      messages: async ({ path }: { path: { id: string } }) => ({ data: [...(sessions.get(path.id)?.messages ?? [])] }),
+      children: async ({ path }: { path: { id: string } }) => ({
+        data: [...sessions.values()].map(s => s.info).filter(info => info.parentID === path.id)
+      }),
+      create: async ({ body }: { body?: { title?: string } }) => {
+        const id = `ses_judge${judgeSessions.length + 1}`
+        judgeSessions.push(id)
+        judgeTitles.push(body?.title || "")
+        sessions.set(id, { info: { id, title: body?.title, time: { created: ++clock } }, messages: [] })
+        return { data: { id, title: body?.title } }
+      },
+      delete: async ({ path }: { path: { id: string } }) => {
+        deleted.push(path.id)
+        sessions.delete(path.id)
+        return { data: true }
+      },
+      promptAsync: async ({ path, body }: { path: { id: string }; body: Record<string, any> }) => {
+        const session = sessions.get(path.id)
+        if (!session) return { error: { data: { message: `session ${path.id} not found` } } }
+        const text = body.parts.map((part: FakePart) => part.text || "").join("")
+        if (judgeSessions.includes(path.id)) {
+          const call = { sessionId: path.id, text, body, turn: session.messages.filter(m => m.info.role === "user").length }
+          judgeCalls.push(call)
+          session.messages.push(user(text))
+          void answerJudge(call)
+          return { data: undefined }
+        }
+        const message = { info: { id: `msg_${++clock}`, role: "user", time: { created: clock } }, parts: body.parts }
+        session.messages.push(message)
+        posted.push({ sessionId: path.id, text, noReply: Boolean(body.noReply), kind: body.parts[0]?.metadata?.reflection })
+        return { data: undefined }
+      }
+    },
+    tui: {
+      publish: async ({ body }: { body: { properties: { message: string; variant: string } } }) => {
+        toasts.push({ message: body.properties.message, variant: body.properties.variant })
+        return { data: true }
+      }
+    }
+  }
+
+  hooks = await ReflectionPlugin({ client, directory: dir } as unknown as PluginInput)
+
+  function addSession(id: string, messages: FakeMessage[], info: Record<string, any> = {}): void {
+    sessions.set(id, { info: { id, title: "Test session", time: { created: ++clock }, ...info }, messages })
+  }
+
+  function messagesOf(id: string): FakeMessage[] {
+    return sessions.get(id)!.messages
+  }
+
+  async function event(e: unknown): Promise<void> {
+    await hooks.event?.({ event: e as Event })
+  }
+
+  async function idle(id: string): Promise<void> {
+    await event({ type: "session.idle", properties: { sessionID: id } })
+  }
+
+  // A human message typed into the session - goes through chat.message like the real one
+  async function chat(id: string, text: string): Promise<FakeMessage> {
+    const message = user(text)
+    messagesOf(id).push(message)
+    await hooks["chat.message"]?.({ sessionID: id, messageID: message.info.id } as any, { message: message.info, parts: message.parts } as any)
+    return message
+  }
+
+  // A /reflection command: OpenCode sends the template as a prompt, the agent acknowledges, then command.executed fires
+  async function command(id: string, args: string): Promise<void> {
+    const prompt = await chat(id, `The /reflection command (${args}) was handled by the reflection plugin. Reply with a one-line acknowledgement only.`)
+    messagesOf(id).push(assistant("OK", [], { parentID: prompt.info.id }))
+    await event({ type: "command.executed", properties: { name: "reflection", sessionID: id, arguments: args, messageID: prompt.info.id } })
+  }
+
+  async function logEntries(): Promise<Record<string, any>[]> {
+    try {
+      const content = await readFile(join(dir, ".reflection", "reflection.log"), "utf-8")
+      return content.split("\n").filter(Boolean).map(line => JSON.parse(line))
+    } catch {
+      return []
+    }
+  }
+
+  // Fire session.idle and wait for the run to end with a verdict, a skip or a failure
+  async function reflect(id: string): Promise<Record<string, any>> {
+    const seen = (await logEntries()).length
+    await idle(id)
+    const end = await waitFor(async () => (await logEntries()).slice(seen)
+      .find(entry => entry.sessionId === id && RUN_END.includes(entry.event)), `reflection on ${id}`)
+    // Feedback and toasts follow the verdict entry
+    await delay(50)
+    return end
+  }
+
+  // Saved verdicts, oldest first
+  async function records(): Promise<Record<string, any>[]> {
+    let files: string[] = []
+    try {
+      files = (await readdir(join(dir, ".reflection"))).filter(f => /_\d+\.json$/.test(f))
+    } catch {}
+    files.sort((a, b) => Number(a.match(/_(\d+)\.json$/)![1]) - Number(b.match(/_(\d+)\.json$/)![1]))
+    return Promise.all(files.map(async f => JSON.parse(await readFile(join(dir, ".reflection", f), "utf-8"))))
+  }
+
+  async function state(): Promise<Record<string, any>> {
+    return JSON.parse(await readFile(join(dir, ".reflection", "state.json"), "utf-8"))
+  }
+
+  return {
+    dir, client, hooks, toasts, posted, judgeCalls, judgeSessions, judgeTitles, deleted,
+    addSession, messagesOf, event, idle, chat, command, logEntries, reflect, records, state,
+    setConfig: (config: Record<string, unknown>) => writeConfig(dir, config),
+    feedback: () => posted.filter(p => p.kind === "feedback"),
+    notices: () => posted.filter(p => p.kind === "notice")
+  }
+}
+
+// A finished session: one request and the agent's reply
+function task(request = "Add a login form", reply = "Added the login form and ran the tests", tools: FakePart[] = []): FakeMessage[] {
+  return [user(request), assistant(reply, tools)]
+}
+
+function hasToast(h: { toasts: { message: string; variant: string }[] }, text: string, variant?: string): boolean {
+  return h.toasts.some(t => t.message.includes(text) && (!variant || t.variant === variant))
+}
+
+describe("Reflection Plugin - Configuration", () => {
+  it("turns reflection off with enabled: false", async () => {
+    const h = await createHarness({ config: { enabled: false } })
+    h.addSession("ses_off", task())
+    const end = await h.reflect("ses_off")
+    assert.strictEqual(end.reason, "disabled")
+    assert.strictEqual(h.judgeSessions.length, 0)
+  })
+
+  it("lets env vars override the config files", async () => {
+    const h = await createHarness({ config: { enabled: true } })
+    h.addSession("ses_env", task())
+    process.env.REFLECTION_ENABLED = "false"
+    try {
+      assert.strictEqual((await h.reflect("ses_env")).reason, "disabled")
+    } finally {
+      delete process.env.REFLECTION_ENABLED
+    }
+  })
+
+  it("merges the global config under the project config", async () => {
+    const globalPath = join(scratchHome, ".config", "opencode", "reflection.json")
+    await mkdir(dirname(globalPath), { recursive: true })
+    await writeFile(globalPath, JSON.stringify({ promptPreset: "prototype", enabled: false }))
+    try {
+      const h = await createHarness({ config: { enabled: true } })
+      h.addSession("ses_global", task())
+      await h.reflect("ses_global")
+      assert.ok(h.judgeCalls[0].text.startsWith("TASK VERIFICATION - Prototype Review"))
+    } finally {
+      await rm(globalPath)
+    }
+  })
+
+  it("reports invalid options and keeps the defaults", async () => {
+    const h = await createHarness({ config: { maxAttempts: "three", judgeModel: "no-slash" } })
+    h.addSession("ses_invalid", task())
+    await h.reflect("ses_invalid")
+    const warning = h.toasts.find(t => t.message.startsWith("Config:"))
+    assert.ok(warning, "Missing config warning")
+    assert.strictEqual(warning.variant, "warning")
+    assert.match(warning.message, /maxAttempts/)
+    assert.match(warning.message, /judgeModel/)
+    assert.strictEqual(h.judgeSessions.length, 1, "Reflection should still run")
+  })
+
+  it("reloads the config file when it changes", async () => {
+    const h = await createHarness({ config: { enabled: false } })
+    h.addSession("ses_reload", task())
+    await h.reflect("ses_reload")
+    assert.strictEqual(h.judgeSessions.length, 0)
+
+    await h.setConfig({ enabled: true })
+    await h.reflect("ses_reload")
+    assert.strictEqual(h.judgeSessions.length, 1)
+  })
+})
+
+describe("Reflection Plugin - Prompt Templates", () => {
+  it("judges with the configured preset", async () => {
+    const h = await createHarness({ config: { promptPreset: "prototype" } })
+    h.addSession("ses_preset", task())
+    await h.reflect("ses_preset")
+    assert.ok(h.judgeCalls[0].text.startsWith("TASK VERIFICATION - Prototype Review"))
+  })
+
+  it("uses the project rubric file and renders its placeholders", async () => {
+    const h = await createHarness()
+    await writeFile(join(h.dir, ".opencode", "reflection-prompt.md"), "Review this request: {{task}}\nLeave {{unknown}} alone")
+    h.addSession("ses_rubric", task())
+    await h.reflect("ses_rubric")
+    const prompt = h.judgeCalls[0].text
+    assert.ok(prompt.startsWith("TASK VERIFICATION - Project Rubric"))
+    assert.ok(prompt.includes("Review this request: Add a login form"))
+    assert.ok(prompt.includes("Leave {{unknown}} alone"))
+    assert.ok(prompt.includes('"next_actions"'), "The verdict format is always appended")
+  })
+
+  it("warns when promptFile is missing and falls back to the preset", async () => {
+    const h = await createHarness({ config: { promptFile: "missing.md" } })
+    h.addSession("ses_missing", task())
+    await h.reflect("ses_missing")
+    assert.ok(hasToast(h, "Prompt file not found: missing.md", "warning"))
+    assert.ok(h.judgeCalls[0].text.includes("Release Manager Protocol"))
+  })
+})
+
+describe("Reflection Plugin - Verdict Validation", () => {
+  it("accepts a verdict in a code fence surrounded by prose", async () => {
+    const h = await createHarness({ judge: () => "Here is my verdict:\n```json\n" + verdict(true) + "\n```\nThanks!" })
+    h.addSession("ses_fenced", task())
+    assert.strictEqual((await h.reflect("ses_fenced")).event, "verdict")
+    assert.ok(hasToast(h, "Task complete ✓", "success"))
+  })
+
+  it("normalizes the severity case", async () => {
+    const h = await createHarness({ judge: () => verdict(false, "high") })
+    h.addSession("ses_case", task())
+    await h.reflect("ses_case")
+    assert.ok(hasToast(h, "HIGH: Incomplete (1/3)"))
+  })
+
+  it("asks the judge once to repair an invalid verdict", async () => {
+    const h = await createHarness({ judge: call => call.turn === 0 ? "Looks good to me!" : verdict(true) })
+    h.addSession("ses_repair", task())
+    await h.reflect("ses_repair")
+    assert.strictEqual(h.judgeCalls.length, 2)
+    assert.ok(h.judgeCalls[1].text.startsWith("Your reply could not be used"))
+    assert.ok(hasToast(h, "Task complete ✓"))
+  })
+
+  it("waits for the repaired reply when the judge answered in several messages", async () => {
+    const h = await createHarness({
+      judge: async call => {
+        if (call.turn === 0) return ["Let me look at the changes", "Looks good to me!"]
+        await delay(100)
+        return verdict(true)
+      }
+    })
+    h.addSession("ses_multi", task())
+    await h.reflect("ses_multi")
+    assert.strictEqual(h.judgeCalls.length, 2)
+    assert.ok(hasToast(h, "Task complete ✓"))
+  })
+
+  it("gives up when the repair prompt is rejected", async () => {
+    const h = await createHarness({ judge: () => "Looks good to me!" })
+    const promptAsync = h.client.session.promptAsync
+    h.client.session.promptAsync = async input => input.body.parts[0].text.startsWith("Your reply could not be used")
+      ? { error: { name: "NotFoundError", data: { message: "session gone" } } } as any
+      : promptAsync(input)
+    h.addSession("ses_rejected", task())
+    const end = await h.reflect("ses_rejected")
+    assert.match(end.error, /repair failed: session gone/)
+    assert.strictEqual(h.feedback().length, 0)
+  })
+
+  it("rejects verdicts with invalid fields", async () => {
+    const h = await createHarness({ judge: () => JSON.stringify({ complete: "yes", severity: "CRITICAL", feedback: "ok" }) })
+    h.addSession("ses_invalid_verdict", task())
+    const end = await h.reflect("ses_invalid_verdict")
+    assert.strictEqual(end.reason, "parse failure")
+    assert.ok(hasToast(h, "Reflection skipped", "warning"))
+    assert.strictEqual(h.feedback().length, 0)
+  })
+})
+
+describe("Reflection Plugin - Judge Model Selection", () => {
+  it("sends the judge model and agent with the prompt", async () => {
+    const h = await createHarness({ config: { judgeModel: "openrouter/meta-llama/llama-3", judgeAgent: "reviewer" } })
+    h.addSession("ses_model", task())
+    await h.reflect("ses_model")
+    assert.deepStrictEqual(h.judgeCalls[0].body.model, { providerID: "openrouter", modelID: "meta-llama/llama-3" })
+    assert.strictEqual(h.judgeCalls[0].body.agent, "reviewer")
+  })
+
+  it("moves on to a fallback model when the judge model errors", async () => {
+    const h = await createHarness({
+      config: { judgeModel: "primary/model", judgeFallbackModels: ["backup/model"] },
+      judge: call => call.body.model.providerID === "primary" ? { error: "rate limited" } : verdict(true)
+    })
+    h.addSession("ses_fallback", task())
+    await h.reflect("ses_fallback")
+    assert.ok(hasToast(h, "Task complete ✓"))
+    assert.strictEqual((await h.records())[0].judgeModel, "backup/model")
+    assert.deepStrictEqual(h.deleted, h.judgeSessions, "Both judge sessions are cleaned up")
+  })
+})
+
+describe("Reflection Plugin - Judge Panel", () => {
+  it("accepts a majority verdict and records every vote", async () => {
+    let votes = 0
+    const h = await createHarness({
+      config: { panelSize: 3, panelModels: ["a/one", "b/two", "c/three"] },
+      judge: () => verdict(votes++ < 2)
+    })
+    h.addSession("ses_panel", task())
+    await h.reflect("ses_panel")
+    assert.strictEqual(h.judgeSessions.length, 3)
+    assert.ok(hasToast(h, "Task complete ✓"))
+    const [record] = await h.records()
+    assert.strictEqual(record.panel.strategy, "majority")
+    assert.deepStrictEqual(record.panel.votes.map((v: any) => v.model), ["a/one", "b/two", "c/three"])
+  })
+
+  it("needs every judge to agree with the unanimous strategy", async () => {
+    let votes = 0
+    const h = await createHarness({ config: { panelSize: 3, panelStrategy: "unanimous" }, judge: () => verdict(votes++ < 2) })
+    h.addSession("ses_unanimous", task())
+    await h.reflect("ses_unanimous")
+    assert.strictEqual(h.feedback().length, 1)
+  })
+})
+
+describe("Reflection Plugin - Transcript", () => {
+  it("shows the judge every human message and the tool output", async () => {
+    const h = await createHarness()
+    h.addSession("ses_transcript", [
+      user("Set up the project"),
+      assistant("Done"),
+      user("Now add tests"),
+      assistant("Added tests", [tool("bash", "1 failed, 41 passed", 1)])
+    ])
+    await h.reflect("ses_transcript")
+    const prompt = h.judgeCalls[0].text
+    assert.ok(prompt.includes("[Message 1]\nSet up the project"))
+    assert.ok(prompt.includes("[Latest message]\nNow add tests"))
+    assert.ok(prompt.includes("### bash (completed, exit 1)"))
+    assert.ok(prompt.includes("1 failed, 41 passed"))
+  })
+
+  it("keeps the head and tail of long tool output", async () => {
+    const h = await createHarness({ config: { toolOutputMaxChars: 200 } })
+    const output = "BUILD START\n" + "x".repeat(5000) + "\nFAILED: 2 tests"
+    h.addSession("ses_long", task("Fix the build", "Fixed", [tool("bash", output, 1)]))
+    await h.reflect("ses_long")
+    const prompt = h.judgeCalls[0].text
+    assert.ok(prompt.includes("BUILD START"))
+    assert.ok(prompt.includes("FAILED: 2 tests"))
+    assert.ok(prompt.includes("chars omitted"))
+    assert.ok(!prompt.includes("x".repeat(1000)))
+  })
+})
+
+describe("Reflection Plugin - Git Diff", () => {
+  it("shows the judge the changes made since the task started", async () => {
+    const repo = await mkdtemp(join(tmpdir(), "reflection-git-"))
+    tempDirs.push(repo)
+    const git = (...args: string[]) => execFileSync("git", args, { cwd: repo, stdio: "pipe" })
+    git("init", "-q")
+    git("config", "user.email", "test@example.com")
+    git("config", "user.name", "Test")
+    await writeFile(join(repo, "greeting.txt"), "hello\n")
+    git("add", "greeting.txt")
+    git("commit", "-q", "-m", "initial")
+
+    const h = await createHarness({ directory: repo, config: { includeDiff: true } })
+    h.addSession("ses_diff", [])
+    await h.chat("ses_diff", "Change the greeting and add a farewell")
+    await writeFile(join(repo, "greeting.txt"), "hello, world\n")
+    await writeFile(join(repo, "farewell.txt"), "bye\n")
+    h.messagesOf("ses_diff").push(assistant("Changed the greeting and added farewell.txt"))
+    await h.reflect("ses_diff")
+
+    const prompt = h.judgeCalls[0].text
+    assert.ok(prompt.includes("+hello, world"), "Missing the change to a tracked file")
+    assert.ok(prompt.includes("farewell.txt"), "Missing the new untracked file")
+    assert.ok((await h.records())[0].diff, "The diff is saved with the verdict")
+  })
+})
+
+describe("Reflection Plugin - Independent Verification", () => {
+  it("fails the task without a judge when a required command fails", async () => {
+    const h = await createHarness({
+      config: { verifyCommands: [`node -e "console.log('3 failing'); process.exit(1)"`] }
+    })
+    h.addSession("ses_verify", task())
+    await h.reflect("ses_verify")
+    assert.strictEqual(h.judgeSessions.length, 0)
+    const [record] = await h.records()
+    assert.strictEqual(record.verdict.complete, false)
+    assert.ok(record.verdict.feedback.includes("3 failing"))
+    assert.strictEqual(record.verification[0].exitCode, 1)
+    assert.strictEqual(h.feedback().length, 1)
+  })
+
+  it("kills everything the command started when it times out", async () => {
+    const h = await createHarness({ config: { verifyCommands: [{ command: "sleep 5 & wait", timeout: 200 }] } })
+    h.addSession("ses_timeout", task())
+    await h.reflect("ses_timeout")
+    const [record] = await h.records()
+    assert.strictEqual(record.verification[0].timedOut, true)
+    assert.ok(record.verification[0].durationMs < 2000, "The background sleep should be killed with the shell")
+  })
+
+  it("passes advisory command results to the judge", async () => {
+    const h = await createHarness({
+      config: { verifyCommands: [{ command: `node -e "console.log('2 lint warnings'); process.exit(1)"`, required: false }] }
+    })
+    h.addSession("ses_advisory", task())
+    await h.reflect("ses_advisory")
+    assert.strictEqual(h.judgeSessions.length, 1)
+    assert.ok(h.judgeCalls[0].text.includes("2 lint warnings"))
+    assert.ok(h.judgeCalls[0].text.includes("(advisory)"))
+  })
+})
+
+describe("Reflection Plugin - History", () => {
+  it("registers the /reflection command", async () => {
+    const h = await createHarness()
+    const config: Record<string, any> = {}
+    await h.hooks.config?.(config as any)
+    assert.ok(config.command.reflection.template.startsWith("The /reflection command ($ARGUMENTS)"))
+  })
+
+  it("lists past verdicts in the session without prompting the agent", async () => {
+    const h = await createHarness()
+    h.addSession("ses_history", task())
+    await h.reflect("ses_history")
+    await h.command("ses_history", "")
+    const [notice] = h.notices()
+    assert.ok(notice.noReply)
+    assert.ok(notice.text.startsWith("## Reflection: History (this session)"))
+    assert.ok(notice.text.includes("complete [NONE] - Add a login form"))
+  })
+
+  it("shows one verdict in detail", async () => {
+    const h = await createHarness({ judge: () => verdict(false) })
+    h.addSession("ses_show", task())
+    await h.reflect("ses_show")
+    await h.command("ses_show", "show 1")
+    const detail = h.notices()[0].text
+    assert.ok(detail.includes("incomplete [HIGH]"))
+    assert.ok(detail.includes("Tests were not run"))
+  })
+
+  it("shows verdicts saved by older versions and flags invalid ones", async () => {
+    const h = await createHarness()
+    await mkdir(join(h.dir, ".reflection"), { recursive: true })
+    // Older files have no missing/next_actions and kept whatever the judge replied
+    await writeFile(join(h.dir, ".reflection", "ses_old0_1000.json"), JSON.stringify({
+      task: "Add a login form", result: "Done", tools: "(none)", prompt: "...",
+      verdict: { complete: false, severity: "HIGH", feedback: "Tests were not run" },
+      timestamp: "2025-01-01T00:00:00.000Z"
+    }))
+    await writeFile(join(h.dir, ".reflection", "ses_old0_2000.json"), JSON.stringify({
+      task: "Fix the parser", verdict: { complete: "yes" }, timestamp: "2025-01-02T00:00:00.000Z"
+    }))
+    h.addSession("ses_viewer", [])
+    await h.command("ses_viewer", "show 1 all")
+    await h.command("ses_viewer", "show 2 all")
+    const [invalid, old] = h.notices().map(n => n.text)
+    assert.ok(invalid.includes('none (invalid stored verdict: "complete" must be true or false)'), invalid)
+    assert.ok(old.includes("incomplete [HIGH]"), old)
+    assert.ok(old.includes("Tests were not run"))
+    assert.ok(!h.toasts.some(t => t.variant === "error"))
+  })
+
+  it("exports the same records for scripts from reflection-history.ts", async () => {
+    const h = await createHarness({ judge: ({ sessionId }) => verdict(sessionId !== "ses_judge1") })
+    h.addSession("ses_a", task("Add a login form"))
+    await h.reflect("ses_a")
+    h.addSession("ses_b", task("Fix the parser"))
+    await h.reflect("ses_b")
+
+    const all = await listReflections(h.dir)
+    assert.deepStrictEqual(all.map(r => r.sessionId), ["ses_b", "ses_a"])
+    const [failed] = await listReflections(h.dir, { complete: false })
+    assert.strictEqual(failed.sessionId, "ses_a")
+    assert.deepStrictEqual(failed.verdict?.missing, ["Test output"])
+    assert.deepStrictEqual(await listReflections(h.dir, { sessionId: "ses_b" }), [all[0]])
+  })
+
+  it("never judges the command or its reply as a task", async () => {
+    const h = await createHarness()
+    h.addSession("ses_cmd", task())
+    await h.reflect("ses_cmd")
+    await h.command("ses_cmd", "")
+    const end = await h.reflect("ses_cmd")
+    assert.strictEqual(end.reason, "already reflected")
+    assert.strictEqual(h.judgeSessions.length, 1)
+  })
+})
+
+describe("Reflection Plugin - Persistent State", () => {
+  it("remembers judged tasks across restarts", async () => {
+    const first = await createHarness()
+    first.addSession("ses_restart", task())
+    await first.reflect("ses_restart")
+    assert.strictEqual((await first.state()).sessions.ses_restart.lastReflected, 1)
+
+    const second = await createHarness({ directory: first.dir })
+    second.addSession("ses_restart", first.messagesOf("ses_restart"))
+    assert.strictEqual((await second.reflect("ses_restart")).reason, "already reflected")
+    assert.strictEqual(second.judgeSessions.length, 0)
+  })
+
+  it("remembers aborted sessions across restarts", async () => {
+    const first = await createHarness()
+    first.addSession("ses_esc", task())
+    await first.event({ type: "session.error", properties: { sessionID: "ses_esc", error: { name: "MessageAbortedError", data: { message: "aborted" } } } })
+    assert.strictEqual((await first.state()).sessions.ses_esc.aborted, true)
+
+    const second = await createHarness({ directory: first.dir })
+    second.addSession("ses_esc", first.messagesOf("ses_esc"))
+    assert.strictEqual((await second.reflect("ses_esc")).reason, "aborted")
+    assert.strictEqual(second.judgeSessions.length, 0)
+  })
+})
+
+describe("Reflection Plugin - Judge Events", () => {
+  it("wakes on the judge's reply instead of waiting for the next poll", async () => {
+    const h = await createHarness({ config: { pollInterval: 60_000, judgeResponseTimeout: 120_000 } })
+    h.addSession("ses_wake", task())
+    const started = Date.now()
+    await h.reflect("ses_wake")
+    assert.ok(hasToast(h, "Task complete ✓"))
+    assert.ok(Date.now() - started < 2000, "Verdict should arrive without polling")
+  })
+})
+
+describe("Reflection Plugin - Logging", () => {
+  it("writes JSONL entries sharing the session and run IDs", async () => {
+    const h = await createHarness()
+    h.addSession("ses_log", task())
+    await h.reflect("ses_log")
+    const entries = await h.logEntries()
+    const start = entries.find(e => e.event === "start")
+    const end = entries.find(e => e.event === "verdict")
+    assert.ok(start && end)
+    assert.strictEqual(start.sessionId, "ses_log")
+    assert.strictEqual(start.runId, end.runId)
+    assert.ok(typeof start.time === "string" && start.level === "info")
+  })
+
+  it("drops entries below logLevel", async () => {
+    const h = await createHarness({ config: { logLevel: "warn" } })
+    h.addSession("ses_quiet", task())
+    await h.idle("ses_quiet")
+    await waitFor(() => hasToast(h, "Task complete ✓"), "verdict toast")
+    assert.deepStrictEqual(await h.logEntries(), [])
+  })
+
+  it("reports failures with an opt-in toast and never writes to the console", async () => {
+    const h = await createHarness({ config: { toastOnError: true } })
+    h.addSession("ses_fail", task())
+    h.client.session.messages = async () => { throw new Error("server unreachable") }
+    const printed: unknown[] = []
+    const original = { log: console.log, error: console.error, warn: console.warn }
+    console.log = console.error = console.warn = (...args: unknown[]) => { printed.push(args) }
+    try {
+      const end = await h.reflect("ses_fail")
+      assert.strictEqual(end.event, "reflection failed")
+      assert.strictEqual(end.error, "server unreachable")
+    } finally {
+      Object.assign(console, original)
+    }
+    assert.ok(hasToast(h, "Reflection failed: server unreachable", "error"))
+    assert.deepStrictEqual(printed, [])
+  })
+})
+
+describe("Reflection Plugin - Judge Session Marker", () => {
+  let ttsContent: string
+  let pluginContent: string
+
+  before(async () => {
+    pluginContent = await readFile(join(__dirname, "../reflection.ts"), "utf-8")
+    ttsContent = await readFile(join(__dirname, "../tts.ts"), "utf-8")
+  })
+
+  it("titles judge sessions with the marker", async () => {
+    const h = await createHarness()
+    h.addSession("ses_marker", task())
+    await h.reflect("ses_marker")
+    assert.ok(h.judgeTitles[0].startsWith("[reflection-judge] "))
+    assert.deepStrictEqual(h.deleted, h.judgeSessions)
+  })
+
+  it("skips judge sessions created by another process", async () => {
+    const h = await createHarness()
+    h.addSession("ses_other_judge", task(), { title: "[reflection-judge] other/model" })
+    assert.strictEqual((await h.reflect("ses_other_judge")).reason, "judge session")
+    assert.strictEqual(h.judgeSessions.length, 0)
+  })
+
+  it("shares the marker with the TTS plugin", () => {
+    const marker = /JUDGE_TITLE_PREFIX = "([^"]+)"/
+    assert.strictEqual(pluginContent.match(marker)?.[1], ttsContent.match(marker)?.[1])
+  })
+})
+
+describe("Reflection Plugin - Feedback Marker", () => {
+  it("tags feedback and notices with part metadata", async () => {
+    const h = await createHarness({ judge: () => verdict(false) })
+    h.addSession("ses_tagged", task())
+    await h.reflect("ses_tagged")
+    const [feedback] = h.feedback()
+    assert.ok(feedback.text.startsWith("## Reflection: Task Incomplete (1/3) [HIGH]"))
+    assert.strictEqual(feedback.noReply, false)
+  })
+
+  it("counts a human quoting the feedback as human input", async () => {
+    const h = await createHarness()
+    const feedback = user("## Reflection: Task Incomplete (1/3) [HIGH]\n\nTests were not run")
+    feedback.parts[0].metadata = { reflection: "feedback" }
+    h.addSession("ses_quote", [
+      user("Build the parser"),
+      assistant("Done"),
+      feedback,
+      assistant("Ran the tests"),
+      user("Why did it say ## Reflection: Task Incomplete?"),
+      assistant("Because the tests had not been run yet")
+    ])
+    await h.reflect("ses_quote")
+    assert.strictEqual((await h.records())[0].humanMsgCount, 2)
+  })
+})
+
+describe("Reflection Plugin - Approval Mode", () => {
+  async function heldFeedback(config: Record<string, unknown> = {}) {
+    const h = await createHarness({ config: { feedbackMode: "ask", ...config }, judge: () => verdict(false) })
+    h.addSession("ses_ask", task())
+    await h.reflect("ses_ask")
+    return h
+  }
+
+  it("holds feedback until /reflection send", async () => {
+    const h = await heldFeedback()
+    assert.strictEqual(h.feedback().length, 0)
+    assert.ok(h.notices()[0].text.startsWith("## Reflection: Awaiting Approval [HIGH]"))
+    assert.ok(hasToast(h, "/reflection send or /reflection dismiss"))
+
+    await h.command("ses_ask", "send")
+    assert.strictEqual(h.feedback().length, 1)
+    assert.ok(hasToast(h, "Feedback sent"))
+    assert.strictEqual((await h.state()).sessions.ses_ask.attempts["1"], 1)
+  })
+
+  it("drops held feedback on /reflection dismiss", async () => {
+    const h = await heldFeedback()
+    await h.command("ses_ask", "dismiss")
+    assert.strictEqual(h.feedback().length, 0)
+    assert.ok(hasToast(h, "Feedback dismissed"))
+    assert.strictEqual((await h.state()).sessions.ses_ask.lastReflected, 1)
+  })
+
+  it("drops held feedback when the user moves on", async () => {
+    const h = await heldFeedback()
+    await h.chat("ses_ask", "Never mind, do something else")
+    await h.command("ses_ask", "send")
+    assert.strictEqual(h.feedback().length, 0)
+    assert.ok(hasToast(h, "No reflection feedback waiting for approval"))
+  })
+
+  it("sends held feedback after askTimeout", async () => {
+    const h = await heldFeedback({ askTimeout: 100 })
+    await waitFor(() => h.feedback().length === 1, "auto-sent feedback")
+  })
+})
+
+describe("Reflection Plugin - Escalating Feedback", () => {
+  // Judge the same task until the attempts run out, with a new agent reply after each feedback
+  async function feedbackRounds(config: Record<string, unknown>, rounds: number) {
+    const h = await createHarness({ config, judge: () => verdict(false) })
+    h.addSession("ses_escalate", task())
+    for (let round = 1; round <= rounds; round++) {
+      await h.reflect("ses_escalate")
+      h.messagesOf("ses_escalate").push(assistant(`Still working (round ${round})`))
+    }
+    return h
+  }
+
+  it("escalates from next actions to full feedback to a status report", async () => {
+    const h = await feedbackRounds({}, 3)
+    const [first, second, third] = h.feedback().map(f => f.text)
+    assert.ok(first.startsWith("## Reflection: Task Incomplete (1/3)"))
+    assert.ok(first.includes("### Next Actions\n- Run npm test"))
+    assert.ok(!first.includes("Tests were not run"))
+    assert.ok(second.includes("Tests were not run\n\n### Missing\n- Test output"))
+    assert.ok(third.includes("honest status report"))
+  })
+
+  it("sends the status report on the final attempt only", async () => {
+    const h = await feedbackRounds({ maxAttempts: 5 }, 5)
+    const texts = h.feedback().map(f => f.text)
+    assert.deepStrictEqual(texts.map(t => t.includes("honest status report")), [false, false, false, false, true])
+    assert.ok(texts[3].includes("Tests were not run\n\n### Missing"), "Attempts before the last repeat the table's last entry")
+    assert.ok(texts[4].includes("This is the last reflection attempt"))
+  })
+
+  it("still sends the status report with two attempts", async () => {
+    const h = await feedbackRounds({ maxAttempts: 2 }, 2)
+    const [first, last] = h.feedback().map(f => f.text)
+    assert.ok(first.includes("### Next Actions"))
+    assert.ok(last.includes("honest status report"))
+  })
+
+  it("follows a custom strategy table", async () => {
+    const h = await feedbackRounds({ feedbackStrategies: ["full"] }, 1)
+    assert.ok(h.feedback()[0].text.includes("Tests were not run"))
+  })
+})
+
+describe("Reflection Plugin - Max Attempts Report", () => {
+  it("writes and posts a report when the attempts run out", async () => {
+    const h = await createHarness({ config: { maxAttempts: 1 }, judge: () => verdict(false) })
+    h.addSession("ses_report", task())
+    await h.reflect("ses_report")
+    h.messagesOf("ses_report").push(assistant("Tried again"))
+    const end = await h.reflect("ses_report")
+    assert.strictEqual(end.reason, "max attempts")
+
+    const report = (await readdir(join(h.dir, ".reflection"))).find(f => f.startsWith("report_"))
+    assert.ok(report, "Missing report file")
+    const content = await readFile(join(h.dir, ".reflection", report), "utf-8")
+    assert.ok(content.startsWith("# Reflection Report: Add a login form"))
+    assert.ok(content.includes("## Severity Trend"))
+    assert.ok(content.includes("- **Attempts:** 1/1 used"))
+    assert.ok(h.notices().some(n => n.text === content))
+    assert.ok(hasToast(h, "Max attempts (1) reached", "warning"))
+  })
+
+  it("keeps the report out of the session with postReport: false", async () => {
+    const h = await createHarness({ config: { maxAttempts: 1, postReport: false }, judge: () => verdict(false) })
+    h.addSession("ses_quiet_report", task())
+    await h.reflect("ses_quiet_report")
+    h.messagesOf("ses_quiet_report").push(assistant("Tried again"))
+    await h.reflect("ses_quiet_report")
+    assert.strictEqual(h.notices().length, 0)
+  })
+})
+
+describe("Reflection Plugin - Subagent Sessions", () => {
+  it("skips subagent sessions by default", async () => {
+    const h = await createHarness()
+    h.addSession("ses_parent", task())
+    h.addSession("ses_child", task("Search the codebase", "Found it"), { parentID: "ses_parent" })
+    assert.strictEqual((await h.reflect("ses_child")).reason, "child session")
+  })
+
+  it("shows the judge what subagents reported", async () => {
+    const h = await createHarness()
+    h.addSession("ses_parent", task())
+    h.addSession("ses_child", task("Search the codebase", "Child findings: the form lives in src/login.ts"), {
+      parentID: "ses_parent",
+      title: "Find the form"
+    })
+    await h.reflect("ses_parent")
+    assert.ok(h.judgeCalls[0].text.includes("Child findings: the form lives in src/login.ts"))
+  })
+
+  it("keeps the parent incomplete while a judged subagent is unfinished", async () => {
+    const h = await createHarness({
+      config: { judgeChildSessions: true, feedbackStrategies: ["full"] },
+      judge: call => verdict(!call.text.includes("Write the migration"))
+    })
+    h.addSession("ses_parent", task())
+    h.addSession("ses_child", task("Write the migration", "Migration half done"), { parentID: "ses_parent", title: "Migration" })
+    assert.strictEqual((await h.reflect("ses_child")).event, "verdict")
+    assert.strictEqual(h.posted.filter(p => p.sessionId === "ses_child").length, 0, "Subagents get no feedback")
+
+    await h.reflect("ses_parent")
+    const [feedback] = h.feedback()
+    assert.strictEqual(feedback.sessionId, "ses_parent")
+    assert.ok(feedback.text.includes("[Migration] Test output"))
+  })
+
+  it("waits for a subagent's reflection that is still running", async () => {
+    const h = await createHarness({
+      config: { judgeChildSessions: true, settleDelay: 50 },
+      judge: async call => {
+        if (!call.text.includes("Write the migration")) return verdict(true)
+        await delay(200)
+        return verdict(false)
+      }
+    })
+    h.addSession("ses_parent", task())
+    h.addSession("ses_child", task("Write the migration", "Migration half done"), { parentID: "ses_parent", title: "Migration" })
+    await h.idle("ses_child")
+    await h.idle("ses_parent")
+    await waitFor(() => h.feedback().length === 1, "parent feedback")
+    assert.strictEqual(h.feedback()[0].sessionId, "ses_parent")
+  })
+
+  it("judges a queued subagent first instead of waiting behind the parent", async () => {
+    const h = await createHarness({
+      config: { judgeChildSessions: true, maxConcurrent: 1 },
+      judge: call => verdict(!call.text.includes("Write the migration"))
+    })
+    h.addSession("ses_parent", task())
+    h.addSession("ses_child", task("Write the migration", "Migration half done"), { parentID: "ses_parent", title: "Migration" })
+    await h.idle("ses_parent")
+    await h.idle("ses_child")
+    await waitFor(() => h.feedback().length === 1, "parent feedback")
+    const [record] = (await h.records()).filter(r => r.sessionId === "ses_parent")
+    assert.strictEqual(record.children[0].verdict.complete, false)
+  })
+})
+
+describe("Reflection Plugin - Judge Cost", () => {
+  it("adds up judge usage per session and for the project", async () => {
+    const h = await createHarness({ judgeCost: 0.01 })
+    h.addSession("ses_cost", task())
+    await h.reflect("ses_cost")
+    const saved = await h.state()
+    assert.strictEqual(saved.usage.cost, 0.01)
+    assert.strictEqual(saved.sessions.ses_cost.usage.replies, 1)
+    assert.strictEqual((await h.records())[0].usage.input, 1000)
+  })
+
+  it("posts the totals for /reflection cost", async () => {
+    const h = await createHarness({ judgeCost: 0.01, config: { budgetUsd: 1 } })
+    h.addSession("ses_cost", task())
+    await h.reflect("ses_cost")
+    await h.command("ses_cost", "cost")
+    const report = h.notices()[0].text
+    assert.ok(report.startsWith("## Reflection: Judge Usage"))
+    assert.ok(report.includes("**This session:** $0.0100 - 1,000 input / 100 output tokens"))
+    assert.ok(report.includes("**Budget:** $1 ($0.9900 left)"))
+  })
+
+  it("stops reflecting once the budget is spent", async () => {
+    const h = await createHarness({ judgeCost: 0.01, config: { budgetUsd: 0.005 } })
+    h.addSession("ses_first", task())
+    h.addSession("ses_second", task("Add a signup form", "Added it"))
+    await h.reflect("ses_first")
+    assert.strictEqual((await h.reflect("ses_second")).reason, "budget exceeded")
+    assert.strictEqual(h.judgeSessions.length, 1)
+    assert.ok(hasToast(h, "Reflection budget reached", "warning"))
+  })
+})
+
+describe("Reflection Plugin - Verdict Cache", () => {
+  it("reuses the verdict for the same task, response and tools", async () => {
+    const h = await createHarness()
+    h.addSession("ses_one", task())
+    h.addSession("ses_two", task())
+    await h.reflect("ses_one")
+    await h.reflect("ses_two")
+    assert.strictEqual(h.judgeSessions.length, 1)
+    assert.ok((await h.logEntries()).some(e => e.event === "cache hit" && e.sessionId === "ses_two"))
+    assert.strictEqual(h.toasts.filter(t => t.message === "Task complete ✓").length, 2)
+  })
+
+  it("records a cache hit in the history", async () => {
+    const h = await createHarness({ config: { maxAttempts: 1 }, judge: () => verdict(false) })
+    h.addSession("ses_one", task())
+    h.addSession("ses_two", task())
+    await h.reflect("ses_one")
+    await h.reflect("ses_two")
+    const [judged, reused] = await h.records()
+    assert.strictEqual(judged.cached, undefined)
+    assert.strictEqual(reused.sessionId, "ses_two")
+    assert.strictEqual(reused.cached, true)
+    assert.deepStrictEqual(reused.verdict, judged.verdict)
+
+    // The reused verdict counts toward the max-attempts report like a judged one
+    h.messagesOf("ses_two").push(assistant("Tried again"))
+    await h.reflect("ses_two")
+    const report = h.notices().find(n => n.sessionId === "ses_two")
+    assert.ok(report?.text.includes("HIGH - Tests were not run (cached)"))
+  })
+
+  it("judges again when the response changes", async () => {
+    const h = await createHarness()
+    h.addSession("ses_one", task())
+    h.addSession("ses_two", task(undefined, "Added the login form, tests pass"))
+    await h.reflect("ses_one")
+    await h.reflect("ses_two")
+    assert.strictEqual(h.judgeSessions.length, 2)
+  })
+
+  it("always runs the judge with cacheVerdicts: false", async () => {
+    const h = await createHarness({ config: { cacheVerdicts: false } })
+    h.addSession("ses_one", task())
+    h.addSession("ses_two", task())
+    await h.reflect("ses_one")
+    await h.reflect("ses_two")
+    assert.strictEqual(h.judgeSessions.length, 2)
+  })
+})
+
+describe("Reflection Plugin - Idle Settling", () => {
+  it("waits for the session to stay idle for settleDelay", async () => {
+    const h = await createHarness({ config: { settleDelay: 200 } })
+    h.addSession("ses_settle", task())
+    await h.idle("ses_settle")
+    await delay(50)
+    assert.strictEqual(h.judgeSessions.length, 0)
+    await waitFor(() => hasToast(h, "Task complete ✓"), "verdict after settling")
+  })
+
+  it("drops the reflection when the session turns busy", async () => {
+    const h = await createHarness({ config: { settleDelay: 100 } })
+    h.addSession("ses_busy", task())
+    await h.idle("ses_busy")
+    await h.event({ type: "session.status", properties: { sessionID: "ses_busy", status: { type: "busy" } } })
+    await delay(250)
+    assert.strictEqual(h.judgeSessions.length, 0)
+    assert.ok((await h.logEntries()).some(e => e.event === "reflection deferred" && e.reason === "busy"))
+  })
+
+  it("drops the reflection on a new human message", async () => {
+    const h = await createHarness({ config: { settleDelay: 100 } })
+    h.addSession("ses_typing", task())
+    await h.idle("ses_typing")
+    await h.chat("ses_typing", "Also add a logout button")
+    await delay(250)
+    assert.strictEqual(h.judgeSessions.length, 0)
+  })
+
+  it("runs at most maxConcurrent reflections at once", async () => {
+    let open = 0
+    let peak = 0
+    const h = await createHarness({
+      config: { maxConcurrent: 1 },
+      judge: async () => {
+        peak = Math.max(peak, ++open)
+        await delay(100)
+        open--
+        return verdict(true)
+      }
+    })
+    h.addSession("ses_a", task("Add a login form"))
+    h.addSession("ses_b", task("Add a signup form"))
+    await h.idle("ses_a")
+    await h.idle("ses_b")
+    await waitFor(() => h.toasts.filter(t => t.message === "Task complete ✓").length === 2, "both verdicts")
+    assert.strictEqual(peak, 1)
+  })
+})
+
+describe("Reflection Plugin - Cancel On Intervention", () => {
+  it("cancels the judge when the user sends a message", async () => {
+    const h = await createHarness({ judge: () => null })
+    h.addSession("ses_cancel", task())
+    await h.idle("ses_cancel")
+    await waitFor(() => h.judgeCalls.length === 1, "judge prompt")
+    await h.chat("ses_cancel", "Wait, also handle errors")
+    await waitFor(() => h.deleted.includes(h.judgeSessions[0]), "judge session deleted")
+    await waitFor(async () => (await h.logEntries()).some(e => e.event === "skip" && e.reason === "cancelled"), "cancelled run")
+    const entries = await h.logEntries()
+    assert.ok(entries.some(e => e.event === "reflection cancelled" && e.reason === "new human message"))
+    assert.strictEqual(h.feedback().length, 0)
+  })
+
+  it("cancels the judge when the user presses Esc", async () => {
+    const h = await createHarness({ judge: () => null })
+    h.addSession("ses_esc", task())
+    await h.idle("ses_esc")
+    await waitFor(() => h.judgeCalls.length === 1, "judge prompt")
+    await h.event({ type: "session.error", properties: { sessionID: "ses_esc", error: { name: "MessageAbortedError", data: { message: "aborted" } } } })
+    await waitFor(() => h.deleted.includes(h.judgeSessions[0]), "judge session deleted")
+  })
+
+  it("stops running verification commands when the user sends a message", async () => {
+    const h = await createHarness({ config: { verifyCommands: ["sleep 5 & wait"] } })
+    h.addSession("ses_verify_cancel", task())
+    await h.idle("ses_verify_cancel")
+    await waitFor(async () => (await h.logEntries()).some(e => e.event === "start"), "reflection start")
+    await delay(100)
+    await h.chat("ses_verify_cancel", "Skip the tests, just commit")
+    await waitFor(async () => (await h.logEntries()).some(e => e.event === "skip" && e.reason === "cancelled"), "cancelled run")
+    assert.deepStrictEqual(await h.records(), [])
+    assert.strictEqual(h.judgeSessions.length, 0)
+  })
+
+  it("discards a verdict for a task the user moved on from", async () => {
+    const h = await createHarness({
+      judge: () => {
+        h.messagesOf("ses_stale").push(user("Actually, use OAuth instead"))
+        return verdict(false)
+      }
+    })
+    h.addSession("ses_stale", task())
+    assert.strictEqual((await h.reflect("ses_stale")).reason, "stale verdict")
+    assert.strictEqual(h.feedback().length, 0)
+  })
+})
+
+describe("Reflection Plugin - Severity Policy", () => {
+  it("never accepts a BLOCKER by default", async () => {
+    const h = await createHarness({ judge: () => verdict(true, "BLOCKER") })
+    h.addSession("ses_blocker", task())
+    await h.reflect("ses_blocker")
+    assert.strictEqual(h.feedback().length, 1)
+    assert.ok(hasToast(h, "BLOCKER: Incomplete (1/3)", "error"))
+  })
+
+  it("accepts LOW verdicts with a warning", async () => {
+    const h = await createHarness({ config: { severityPolicy: { LOW: "warn" } }, judge: () => verdict(false, "LOW") })
+    h.addSession("ses_low", task())
+    await h.reflect("ses_low")
+    assert.strictEqual(h.feedback().length, 0)
+    assert.ok(hasToast(h, "Task accepted with LOW issues: Test output", "warning"))
+  })
+
+  it("holds feedback for approval with ask", async () => {
+    const h = await createHarness({ config: { severityPolicy: { HIGH: "ask" } }, judge: () => verdict(false) })
+    h.addSession("ses_ask_high", task())
+    await h.reflect("ses_ask_high")
+    assert.strictEqual(h.feedback().length, 0)
+    assert.ok(h.notices()[0].text.startsWith("## Reflection: Awaiting Approval [HIGH]"))
+  })
+
+  it("applies per-severity attempt limits", async () => {
+    const h = await createHarness({
+      config: { severityPolicy: { HIGH: { action: "feedback", maxAttempts: 1 } } },
+      judge: () => verdict(false)
+    })
+    h.addSession("ses_limit", task())
+    await h.reflect("ses_limit")
+    assert.ok(h.feedback()[0].text.startsWith("## Reflection: Task Incomplete (1/1)"))
+    h.messagesOf("ses_limit").push(assistant("Tried again"))
+    await h.reflect("ses_limit")
+    assert.ok(hasToast(h, "Max attempts (1) reached"))
+    assert.strictEqual(h.feedback().length, 1)
+    assert.ok(h.notices()[0].text.includes("- **Attempts:** 1/1 used"))
+  })
+
+  it("rejects an invalid policy", async () => {
+    const h = await createHarness({ config: { severityPolicy: { HIGH: "ignore" } } })
+    h.addSession("ses_bad_policy", task())
+    await h.reflect("ses_bad_policy")
+    assert.ok(h.toasts.some(t => t.message.startsWith("Config:") && t.message.includes("severityPolicy")))
+  })
+})
+
+describe("Reflection Plugin - Task Types", () => {
+  async function judgedAs(request: string, tools: FakePart[] = [], config: Record<string, unknown> = {}) {
+    const h = await createHarness({ config })
+    h.addSession("ses_type", task(request, "Done", tools))
+    await h.reflect("ses_type")
+    const [record] = await h.records()
+    return { prompt: h.judgeCalls[0].text, taskType: record.taskType }
+  }
+
+  it("judges questions with the answer rubric", async () => {
+    const { prompt, taskType } = await judgedAs("Explain what parseVerdict does")
+    assert.strictEqual(taskType, "question")
+    assert.ok(prompt.startsWith("TASK VERIFICATION - Answer Review"))
+  })
+
+  it("judges documentation work with the docs rubric", async () => {
+    const { prompt, taskType } = await judgedAs("Update the README install steps", [tool("edit", "ok")])
+    assert.strictEqual(taskType, "docs")
+    assert.ok(prompt.startsWith("TASK VERIFICATION - Documentation Review"))
+  })
+
+  const labels: [string, boolean, string][] = [
+    ["What does the update function do?", false, "question"],
+    ["How do I install this?", false, "question"],
+    ["Explain the deploy script", false, "question"],
+    ["Can you add a login form?", false, "code-change"],
+    ["Could you please fix the flaky test?", true, "code-change"],
+    ["Why does the build fail?", true, "code-change"],
+    ["Add a document upload endpoint with tests", true, "code-change"],
+    ["Update the README and fix the parser bug", true, "code-change"],
+    ["Update the README, the CHANGELOG and the docs", true, "docs"],
+    ["Document the config options", true, "docs"],
+    ["Deploy the new version to production", false, "ops"],
+    ["Rename getUser to fetchUser everywhere", true, "refactor"],
+    ["Do you know why the build fails?", false, "question"],
+    ["Can you explain the retry logic?", false, "question"],
+    ["What changed in v2, and why?", false, "question"],
+    // Requests for action phrased as questions, or with a question in front
+    ["Do the database migration on staging", false, "code-change"],
+    ["Can you run the migration on staging?", false, "code-change"],
+    ["Could you set up CI for this repo?", false, "code-change"],
+    ["Why does the build fail? Please patch it.", false, "code-change"],
+    ["Does this compile? If not, sort it out", false, "code-change"],
+    ["Tell me which tests fail, then get them green", false, "code-change"]
+  ]
+  for (const [request, edited, expected] of labels) {
+    it(`labels "${request}" as ${expected}`, async () => {
+      const { taskType } = await judgedAs(request, edited ? [tool("edit", "ok")] : [])
+      assert.strictEqual(taskType, expected)
+    })
+  }
+
+  it("counts bash calls as possible changes", async () => {
+    const { taskType } = await judgedAs("Why does the build fail?", [tool("bash", "sed -i 's/foo/bar/' src/app.ts")])
+    assert.strictEqual(taskType, "code-change")
+  })
+
+  it("doesn't call a task with changes in the working tree a question", async () => {
+    const repo = await mkdtemp(join(tmpdir(), "reflection-git-"))
+    tempDirs.push(repo)
+    const git = (...args: string[]) => execFileSync("git", args, { cwd: repo, stdio: "pipe" })
+    git("init", "-q")
+    git("config", "user.email", "test@example.com")
+    git("config", "user.name", "Test")
+    await writeFile(join(repo, "app.ts"), "export const port = 80\n")
+    git("add", "app.ts")
+    git("commit", "-q", "-m", "initial")
+
+    const h = await createHarness({ directory: repo })
+    h.addSession("ses_type", [])
+    await h.chat("ses_type", "Why does the server listen on port 80?")
+    await writeFile(join(repo, "app.ts"), "export const port = 8080\n")
+    h.messagesOf("ses_type").push(assistant("It was hard-coded, so I changed it to 8080"))
+    await h.reflect("ses_type")
+    assert.strictEqual((await h.records())[0].taskType, "code-change")
+  })
+
+  it("keeps verification commands advisory for questions", async () => {
+    const h = await createHarness({ config: { verifyCommands: [`node -e "console.log('2 failing'); process.exit(1)"`] } })
+    h.addSession("ses_type", task("How does the retry logic work?", "It retries three times with backoff"))
+    await h.reflect("ses_type")
+    const [record] = await h.records()
+    assert.strictEqual(record.taskType, "question")
+    assert.strictEqual(h.judgeCalls.length, 1, "The judge still decides")
+    assert.ok(h.judgeCalls[0].text.includes("2 failing"), "The judge sees the command output")
+    assert.ok(h.judgeCalls[0].text.includes("(advisory)"))
+    assert.strictEqual(record.verification[0].required, false)
+  })
+
+  it("ignores edits made for earlier messages", async () => {
+    const h = await createHarness()
+    h.addSession("ses_type", [
+      user("Add a login form"),
+      assistant("Added it", [tool("edit", "ok")]),
+      user("Why does the form submit twice?"),
+      assistant("Because the button handler and the form both submit")
+    ])
+    await h.reflect("ses_type")
+    assert.strictEqual((await h.records())[0].taskType, "question")
+  })
+
+  it("tells the judge what evidence the task type needs", async () => {
+    const { prompt, taskType } = await judgedAs("Rename getUser to fetchUser everywhere", [tool("edit", "ok")])
+    assert.strictEqual(taskType, "refactor")
+    assert.ok(prompt.includes("## Task Type: refactor"))
+  })
+
+  it("keeps the configured preset with classifyTasks: false", async () => {
+    const { prompt, taskType } = await judgedAs("Explain what parseVerdict does", [], { classifyTasks: false })
+    assert.strictEqual(taskType, undefined)
+    assert.ok(prompt.includes("Release Manager Protocol"))
+    assert.ok(prompt.includes("## Task Type: not classified"))
+  })
+})
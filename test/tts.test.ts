@@ -2,13 +2,16 @@
  * Tests for OpenCode TTS Plugin
  */
 
-import { describe, it, before } from "node:test"
+import { describe, it, before, beforeEach, after } from "node:test"
 import assert from "node:assert"
-import { readFile } from "fs/promises"
+import { readFile, writeFile, mkdir, mkdtemp, rm } from "fs/promises"
 import { join, dirname } from "path"
+import { tmpdir } from "os"
 import { fileURLToPath } from "url"
 import { exec } from "child_process"
 import { promisify } from "util"
+import type { Hooks, PluginInput } from "@opencode-ai/plugin"
+import type { Event } from "@opencode-ai/sdk"
 
 const execAsync = promisify(exec)
 const __dirname = dirname(fileURLToPath(import.meta.url))
@@ -71,6 +74,198 @@ describe("TTS Plugin - Unit Tests", () => {
   })
 })
 
+// The plugin resolves ~/.config/opencode/tts.json when it loads - keep the tests out of the real one
+const scratchHome = await mkdtemp(join(tmpdir(), "tts-home-"))
+process.env.HOME = scratchHome
+delete process.env.TTS_DISABLED
+delete process.env.TTS_ENGINE
+const { TTSPlugin } = await import("../tts.ts")
+const configPath = join(scratchHome, ".config", "opencode", "tts.json")
+
+const tempDirs: string[] = [scratchHome]
+after(async () => {
+  for (const dir of tempDirs) await rm(dir, { recursive: true, force: true })
+})
+
+type FakeMessage = { info: Record<string, any>; parts: Record<string, any>[] }
+
+async function createHarness() {
+  const dir = await mkdtemp(join(tmpdir(), "tts-test-"))
+  tempDirs.push(dir)
+  const sessions = new Map<string, { info: Record<string, any>; messages: FakeMessage[] }>()
+  const toasts: { message: string; variant: string }[] = []
+
+  const client = {
+    session: {
+      get: async ({ path }: { path: { id: string } }) => ({ data: sessions.get(path.id)?.info }),
+      messages: async ({ path }: { path: { id: string } }) => ({ data: [...(sessions.get(path.id)?.messages ?? [])] })
+    },
+    tui: {
+      publish: async ({ body }: { body: { properties: { message: string; variant: string } } }) => {
+        toasts.push({ message: body.properties.message, variant: body.properties.variant })
+        return { data: true }
+      }
+    }
+  }
+
+  const hooks: Hooks = await TTSPlugin({ client, directory: dir } as unknown as PluginInput)
+  const config: Record<string, any> = {}
+  await hooks.config?.(config as any)
+
+  function addSession(id: string, messages: FakeMessage[], info: Record<string, any> = {}): void {
+    sessions.set(id, { info: { id, title: "Test session", ...info }, messages })
+  }
+
+  async function chat(id: string, text: string): Promise<void> {
+    const message = { id: `msg_${id}`, sessionID: id, role: "user" }
+    await hooks["chat.message"]?.({ sessionID: id } as any, { message, parts: [{ type: "text", text }] } as any)
+  }
+
+  // A /tts command: OpenCode expands the registered template and sends it as the user's message
+  async function command(id: string, args: string): Promise<void> {
+    await chat(id, config.command.tts.template.replace("$ARGUMENTS", args))
+  }
+
+  async function idle(id: string): Promise<void> {
+    await hooks.event?.({ event: { type: "session.idle", properties: { sessionID: id } } as Event })
+  }
+
+  async function debugLog(): Promise<string> {
+    try {
+      return await readFile(join(dir, ".tts-debug.log"), "utf-8")
+    } catch {
+      return ""
+    }
+  }
+
+  return { dir, client, config, toasts, addSession, chat, command, idle, debugLog }
+}
+
+async function savedConfig(): Promise<Record<string, any>> {
+  return JSON.parse(await readFile(configPath, "utf-8"))
+}
+
+describe("TTS Plugin - Commands", () => {
+  beforeEach(async () => {
+    await rm(configPath, { force: true })
+  })
+
+  it("toggles when called without arguments", async () => {
+    const h = await createHarness()
+    await h.command("ses_1", "")
+    assert.strictEqual((await savedConfig()).enabled, false)
+    assert.deepStrictEqual(h.toasts.at(-1), { message: "TTS disabled", variant: "info" })
+    await h.command("ses_1", "  ")
+    assert.strictEqual((await savedConfig()).enabled, true)
+  })
+
+  it("enables and disables explicitly, keeping other settings", async () => {
+    await mkdir(dirname(configPath), { recursive: true })
+    await writeFile(configPath, JSON.stringify({ enabled: true, engine: "os", os: { voice: "Alex", rate: 180 } }))
+    const h = await createHarness()
+    await h.command("ses_1", "OFF")
+    assert.deepStrictEqual(await savedConfig(), { enabled: false, engine: "os", os: { voice: "Alex", rate: 180 } })
+    await h.command("ses_1", "on")
+    assert.strictEqual((await savedConfig()).enabled, true)
+    assert.deepStrictEqual(h.toasts.at(-1), { message: "TTS enabled", variant: "success" })
+  })
+
+  it("warns when TTS_DISABLED overrides /tts on", async () => {
+    const h = await createHarness()
+    process.env.TTS_DISABLED = "1"
+    try {
+      await h.command("ses_1", "on")
+    } finally {
+      delete process.env.TTS_DISABLED
+    }
+    assert.deepStrictEqual(h.toasts.at(-1), { message: "TTS enabled (TTS_DISABLED=1 takes precedence)", variant: "warning" })
+  })
+
+  it("switches engine and rejects unknown engines", async () => {
+    const h = await createHarness()
+    await h.command("ses_1", "engine os")
+    assert.strictEqual((await savedConfig()).engine, "os")
+    await h.command("ses_1", "engine espeak")
+    assert.strictEqual((await savedConfig()).engine, "os")
+    assert.strictEqual(h.toasts.at(-1)?.variant, "error")
+    assert.ok(h.toasts.at(-1)?.message.includes('Unknown engine "espeak"'))
+  })
+
+  it("recognizes stop and rejects unknown actions", async () => {
+    const h = await createHarness()
+    await h.command("ses_1", "stop")
+    assert.deepStrictEqual(h.toasts.at(-1), { message: "Nothing is playing", variant: "info" })
+    await h.command("ses_1", "louder")
+    assert.ok(h.toasts.at(-1)?.message.startsWith("Usage: /tts"))
+  })
+
+  it("leaves a tts.json with invalid JSON alone", async () => {
+    const broken = `{ "enabled": false, "os": { "voice": "Alex" }, }`
+    await mkdir(dirname(configPath), { recursive: true })
+    await writeFile(configPath, broken)
+    const h = await createHarness()
+    await h.command("ses_1", "on")
+    await h.command("ses_1", "engine os")
+    assert.strictEqual(await readFile(configPath, "utf-8"), broken)
+    assert.strictEqual(h.toasts.length, 2)
+    assert.ok(h.toasts.every(t => t.variant === "error" && t.message.includes("Fix the file")))
+  })
+
+  it("ignores messages that aren't command prompts", async () => {
+    const h = await createHarness()
+    await h.chat("ses_1", "The /tts command (off) is what I want to run")
+    assert.strictEqual(h.toasts.length, 0)
+    await assert.rejects(readFile(configPath, "utf-8"))
+  })
+
+  it("doesn't read the command acknowledgement aloud", async () => {
+    const h = await createHarness()
+    h.addSession("ses_1", [])
+    await h.command("ses_1", "on")
+    await h.idle("ses_1")
+    assert.ok((await h.debugLog()).includes("Reply to plugin command, skipping"))
+  })
+})
+
+describe("TTS Plugin - Judge Sessions", () => {
+  // Enabled with the OS engine, so a wrongly spoken session doesn't start a model server
+  beforeEach(async () => {
+    await mkdir(dirname(configPath), { recursive: true })
+    await writeFile(configPath, JSON.stringify({ enabled: true, engine: "os" }))
+  })
+
+  // Spoken sessions are remembered per process, so every test uses its own session id
+  const verdictReply = (): FakeMessage[] => [
+    { info: { role: "user" }, parts: [{ type: "text", text: "TASK VERIFICATION - Release Manager Protocol\n..." }] },
+    { info: { role: "assistant", time: { completed: 1 } }, parts: [{ type: "text", text: `{"complete": true, "severity": "NONE"}` }] }
+  ]
+
+  it("skips sessions with the judge title before reading their messages", async () => {
+    const h = await createHarness()
+    h.addSession("ses_title", verdictReply(), { title: "[reflection-judge] default model" })
+    await h.idle("ses_title")
+    const log = await h.debugLog()
+    assert.ok(log.includes("Judge session detected"))
+    assert.ok(!log.includes("Got 2 messages"))
+  })
+
+  it("skips sessions that can't be looked up", async () => {
+    const h = await createHarness()
+    h.addSession("ses_gone", verdictReply(), { title: "Test session" })
+    // Deleted by the reflection plugin between session.idle and the lookup
+    h.client.session.get = async () => { throw new Error("session not found") }
+    await h.idle("ses_gone")
+    assert.ok((await h.debugLog()).includes("Judge session detected"))
+  })
+
+  it("recognizes the judge prompt when the title doesn't match", async () => {
+    const h = await createHarness()
+    h.addSession("ses_prompt", verdictReply(), { title: "Renamed" })
+    await h.idle("ses_prompt")
+    assert.ok((await h.debugLog()).includes("Judge prompt detected"))
+  })
+})
+
 describe("TTS Plugin - Structure Validation", () => {
   let pluginContent: string
 
@@ -101,7 +296,7 @@ describe("TTS Plugin - Structure Validation", () => {
 
   it("skips judge sessions", () => {
     assert.ok(pluginContent.includes("isJudgeSession"), "Missing judge session check")
-    assert.ok(pluginContent.includes("TASK VERIFICATION"), "Missing judge session marker")
+    assert.ok(pluginContent.includes('JUDGE_TITLE_PREFIX = "[reflection-judge]"'), "Missing judge session marker")
   })
 
   it("listens to session.idle event", () => {
@@ -121,6 +316,13 @@ describe("TTS Plugin - Structure Validation", () => {
     assert.ok(pluginContent.includes("tts.json"), "Missing config file reference")
     assert.ok(pluginContent.includes("isEnabled"), "Missing isEnabled check")
   })
+
+  it("supports /tts stop to interrupt speech", () => {
+    assert.ok(pluginContent.includes("stopSpeaking"), "Missing stopSpeaking function")
+    assert.ok(pluginContent.includes("currentPlayback"), "Missing playback process tracking")
+    assert.ok(pluginContent.includes("speechInterrupted"), "Missing interrupt flag")
+  })
+
 })
 
 describe("TTS Plugin - Engine Configuration", () => {
@@ -8,9 +8,11 @@
  *   - os: Native OS TTS (macOS `say` command)
  * 
  * Toggle TTS on/off:
- *   /tts       - toggle
- *   /tts on    - enable
- *   /tts off   - disable
+ *   /tts                  - toggle
+ *   /tts on               - enable
+ *   /tts off              - disable
+ *   /tts engine <name>    - switch engine (coqui, chatterbox, os)
+ *   /tts stop             - interrupt the current utterance
  * 
  * Configure engine in ~/.config/opencode/tts.json:
  *   { "enabled": true, "engine": "coqui", "coqui": { "model": "bark" } }
@@ -22,7 +24,7 @@
  */
 
 import type { Plugin } from "@opencode-ai/plugin"
-import { exec, spawn } from "child_process"
+import { exec, spawn, type ChildProcess } from "child_process"
 import { promisify } from "util"
 import { readFile, writeFile, access, unlink, mkdir } from "fs/promises"
 import { join } from "path"
@@ -44,12 +46,27 @@ const SPEECH_LOCK_PATH = join(homedir(), ".config", "opencode", "speech.lock")
 const SPEECH_LOCK_TIMEOUT = 120000  // Max speech duration (2 minutes)
 const SPEECH_QUEUE_DIR = join(homedir(), ".config", "opencode", "speech-queue")
 
+// Audio process currently playing (afplay/paplay/say/espeak) - killed by /tts stop
+let currentPlayback: ChildProcess | null = null
+// Set by /tts stop so the current utterance doesn't fall back to another engine
+let speechInterrupted = false
+
+// Title prefix of judge sessions created by the reflection plugin - never speak these.
+// Keep in sync with JUDGE_TITLE_PREFIX in reflection.ts
+const JUDGE_TITLE_PREFIX = "[reflection-judge]"
+
+// The prompt OpenCode sends for a plugin command - its reply isn't read aloud.
+// Keep in sync with COMMAND_PROMPT in reflection.ts
+const COMMAND_PROMPT = /^The \/(reflection|tts) command \((.*)\) was handled by the \S+ plugin\./s
+
 // Unique identifier for this process instance
 const PROCESS_ID = `${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}`
 
 // TTS Engine types
 type TTSEngine = "coqui" | "chatterbox" | "os"
 
+const TTS_ENGINES: TTSEngine[] = ["coqui", "chatterbox", "os"]
+
 // Coqui TTS model types
 type CoquiModel = "bark" | "xtts_v2" | "tortoise" | "vits" | "jenny"
 
@@ -107,31 +124,56 @@ const COQUI_PID = join(COQUI_DIR, "server.pid")
 let coquiInstalled: boolean | null = null
 let coquiSetupAttempted = false
 
+function defaultConfig(): TTSConfig {
+  return { 
+    enabled: true, 
+    engine: "coqui",
+    coqui: {
+      model: "xtts_v2",
+      device: "mps",
+      language: "en",
+      serverMode: true
+    },
+    os: {
+      voice: "Samantha",
+      rate: 200
+    }
+  }
+}
+
+/**
+ * Read tts.json - null when it doesn't exist, throws when it can't be read or isn't valid JSON
+ */
+async function readConfigFile(): Promise<TTSConfig | null> {
+  let content: string
+  try {
+    content = await readFile(TTS_CONFIG_PATH, "utf-8")
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return null
+    throw e
+  }
+  return JSON.parse(content)
+}
+
 /**
- * Load TTS configuration from file
+ * Load TTS configuration from file, falling back to the defaults
  */
 async function loadConfig(): Promise<TTSConfig> {
   try {
-    const content = await readFile(TTS_CONFIG_PATH, "utf-8")
-    return JSON.parse(content)
+    return (await readConfigFile()) ?? defaultConfig()
   } catch {
-    return { 
-      enabled: true, 
-      engine: "coqui",
-      coqui: {
-        model: "xtts_v2",
-        device: "mps",
-        language: "en",
-        serverMode: true
-      },
-      os: {
-        voice: "Samantha",
-        rate: 200
-      }
-    }
+    return defaultConfig()
   }
 }
 
+/**
+ * Save TTS configuration to file
+ */
+async function saveConfig(config: TTSConfig): Promise<void> {
+  await mkdir(join(homedir(), ".config", "opencode"), { recursive: true })
+  await writeFile(TTS_CONFIG_PATH, JSON.stringify(config, null, 2))
+}
+
 /**
  * Check if TTS is enabled
  */
@@ -312,6 +354,31 @@ async function waitForSpeechTurn(ticketId: string, timeoutMs: number = 180000):
 
 // ==================== UTILITY FUNCTIONS ====================
 
+/**
+ * Run an audio playback command, tracking the process so /tts stop can kill it
+ */
+async function execPlayback(command: string): Promise<void> {
+  if (speechInterrupted) throw new Error("Speech interrupted")
+  const promise = execAsync(command)
+  currentPlayback = promise.child
+  try {
+    await promise
+  } finally {
+    if (currentPlayback === promise.child) currentPlayback = null
+  }
+}
+
+/**
+ * Interrupt the current utterance. Returns true if audio was playing.
+ */
+function stopSpeaking(): boolean {
+  speechInterrupted = true
+  if (!currentPlayback) return false
+  currentPlayback.kill()
+  currentPlayback = null
+  return true
+}
+
 async function findPython311(): Promise<string | null> {
   const candidates = ["python3.11", "/opt/homebrew/bin/python3.11", "/usr/local/bin/python3.11"]
   for (const py of candidates) {
@@ -673,12 +740,12 @@ async function speakWithChatterboxServer(text: string, config: TTSConfig): Promi
         }
         
         if (platform() === "darwin") {
-          await execAsync(`afplay "${outputPath}"`)
+          await execPlayback(`afplay "${outputPath}"`)
         } else {
           try {
-            await execAsync(`paplay "${outputPath}"`)
+            await execPlayback(`paplay "${outputPath}"`)
           } catch {
-            await execAsync(`aplay "${outputPath}"`)
+            await execPlayback(`aplay "${outputPath}"`)
           }
         }
         await unlink(outputPath).catch(() => {})
@@ -769,12 +836,12 @@ async function speakWithChatterbox(text: string, config: TTSConfig): Promise<boo
       
       try {
         if (platform() === "darwin") {
-          await execAsync(`afplay "${outputPath}"`)
+          await execPlayback(`afplay "${outputPath}"`)
         } else {
           try {
-            await execAsync(`paplay "${outputPath}"`)
+            await execPlayback(`paplay "${outputPath}"`)
           } catch {
-            await execAsync(`aplay "${outputPath}"`)
+            await execPlayback(`aplay "${outputPath}"`)
           }
         }
         await unlink(outputPath).catch(() => {})
@@ -1180,12 +1247,12 @@ async function speakWithCoquiServer(text: string, config: TTSConfig): Promise<bo
         }
         
         if (platform() === "darwin") {
-          await execAsync(`afplay "${outputPath}"`)
+          await execPlayback(`afplay "${outputPath}"`)
         } else {
           try {
-            await execAsync(`paplay "${outputPath}"`)
+            await execPlayback(`paplay "${outputPath}"`)
           } catch {
-            await execAsync(`aplay "${outputPath}"`)
+            await execPlayback(`aplay "${outputPath}"`)
           }
         }
         await unlink(outputPath).catch(() => {})
@@ -1279,12 +1346,12 @@ async function speakWithCoqui(text: string, config: TTSConfig): Promise<boolean>
       
       try {
         if (platform() === "darwin") {
-          await execAsync(`afplay "${outputPath}"`)
+          await execPlayback(`afplay "${outputPath}"`)
         } else {
           try {
-            await execAsync(`paplay "${outputPath}"`)
+            await execPlayback(`paplay "${outputPath}"`)
           } catch {
-            await execAsync(`aplay "${outputPath}"`)
+            await execPlayback(`aplay "${outputPath}"`)
           }
         }
         await unlink(outputPath).catch(() => {})
@@ -1312,9 +1379,9 @@ async function speakWithOS(text: string, config: TTSConfig): Promise<boolean> {
   
   try {
     if (platform() === "darwin") {
-      await execAsync(`say -v "${voice}" -r ${rate} '${escaped}'`)
+      await execPlayback(`say -v "${voice}" -r ${rate} '${escaped}'`)
     } else {
-      await execAsync(`espeak '${escaped}'`)
+      await execPlayback(`espeak '${escaped}'`)
     }
     return true
   } catch {
@@ -1349,6 +1416,74 @@ export const TTSPlugin: Plugin = async ({ client, directory }) => {
     } catch {}
   }
 
+  async function showToast(message: string, variant: "info" | "success" | "warning" | "error" = "info") {
+    try {
+      await client.tui.publish({
+        query: { directory },
+        body: {
+          type: "tui.toast.show",
+          properties: { title: "TTS", message, variant, duration: 3000 }
+        }
+      })
+    } catch {}
+  }
+
+  /**
+   * Handle /tts [on|off|engine <name>|stop] - persists state to tts.json
+   */
+  async function handleTTSCommand(args: string): Promise<void> {
+    const [action = "", value] = args.trim().toLowerCase().split(/\s+/)
+
+    if (action === "stop") {
+      const stopped = stopSpeaking()
+      await showToast(stopped ? "Speech stopped" : "Nothing is playing")
+      return
+    }
+
+    // Saving over a broken tts.json would replace the user's settings with the defaults
+    let config: TTSConfig
+    try {
+      config = (await readConfigFile()) ?? defaultConfig()
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : String(e)
+      await showToast(`Can't update ${TTS_CONFIG_PATH}: ${reason}. Fix the file and try again.`, "error")
+      return
+    }
+
+    if (action === "" || action === "on" || action === "off") {
+      config.enabled = action === "" ? config.enabled === false : action === "on"
+      if (!config.enabled) stopSpeaking()
+      await saveConfig(config)
+      if (!config.enabled) {
+        await showToast("TTS disabled", "info")
+        return
+      }
+      const overridden = process.env.TTS_DISABLED === "1"
+      await showToast(
+        overridden ? "TTS enabled (TTS_DISABLED=1 takes precedence)" : "TTS enabled",
+        overridden ? "warning" : "success"
+      )
+      return
+    }
+
+    if (action === "engine") {
+      if (!TTS_ENGINES.includes(value as TTSEngine)) {
+        await showToast(`Unknown engine "${value || ""}". Use: ${TTS_ENGINES.join(", ")}`, "error")
+        return
+      }
+      config.engine = value as TTSEngine
+      await saveConfig(config)
+      const overridden = process.env.TTS_ENGINE && process.env.TTS_ENGINE !== value
+      await showToast(
+        overridden ? `Engine set to ${value} (TTS_ENGINE=${process.env.TTS_ENGINE} takes precedence)` : `Engine set to ${value}`,
+        overridden ? "warning" : "success"
+      )
+      return
+    }
+
+    await showToast("Usage: /tts [on|off|engine <coqui|chatterbox|os>|stop]", "error")
+  }
+
   function extractFinalResponse(messages: any[]): string | null {
     for (let i = messages.length - 1; i >= 0; i--) {
       const msg = messages[i]
@@ -1392,6 +1527,7 @@ export const TTSPlugin: Plugin = async ({ client, directory }) => {
     }
 
     try {
+      speechInterrupted = false
       const config = await loadConfig()
       const engine = await getEngine()
       
@@ -1408,7 +1544,7 @@ export const TTSPlugin: Plugin = async ({ client, directory }) => {
         const available = await isCoquiAvailable(config)
         if (available) {
           const success = await speakWithCoqui(toSpeak, config)
-          if (success) {
+          if (success || speechInterrupted) {
             return
           }
         }
@@ -1418,7 +1554,7 @@ export const TTSPlugin: Plugin = async ({ client, directory }) => {
         const available = await isChatterboxAvailable(config)
         if (available) {
           const success = await speakWithChatterbox(toSpeak, config)
-          if (success) {
+          if (success || speechInterrupted) {
             return
           }
         }
@@ -1442,17 +1578,28 @@ export const TTSPlugin: Plugin = async ({ client, directory }) => {
     return false
   }
 
-  function isJudgeSession(messages: any[]): boolean {
-    for (const msg of messages) {
-      for (const part of msg.parts || []) {
-        if (part.type === "text" && part.text?.includes("TASK VERIFICATION")) {
-          return true
-        }
-      }
+  /**
+   * Judge sessions are never spoken. Fails closed: the reflection plugin deletes a judge session as soon as
+   * its verdict arrives, so a session that can no longer be looked up is treated as one
+   */
+  async function isJudgeSession(sessionId: string): Promise<boolean> {
+    try {
+      const { data: session } = await client.session.get({ path: { id: sessionId } })
+      return !session || !!session.title?.startsWith(JUDGE_TITLE_PREFIX)
+    } catch {
+      return true
     }
-    return false
   }
 
+  // Fallback for judge sessions that kept their messages but lost the title - the judge prompt opens the session
+  function hasJudgePrompt(messages: any[]): boolean {
+    const first = messages.find((m: any) => m.info?.role === "user")
+    return !!first?.parts?.some((part: any) => part.type === "text" && part.text?.startsWith("TASK VERIFICATION"))
+  }
+
+  // Sessions whose next idle is the reply to a /tts or /reflection command
+  const commandSessions = new Set<string>()
+
   // Debug log file for TTS diagnostics
   const debugLogPath = join(directory, ".tts-debug.log")
   
@@ -1466,10 +1613,46 @@ export const TTSPlugin: Plugin = async ({ client, directory }) => {
   }
 
   return {
+    config: async (config) => {
+      // Register /tts so it shows up in the command palette; handled in chat.message from the expanded template
+      config.command = config.command || {}
+      config.command.tts = {
+        template: "The /tts command ($ARGUMENTS) was handled by the TTS plugin. Reply with a one-line acknowledgement only.",
+        description: "Text-to-speech: /tts [on|off|engine <coqui|chatterbox|os>|stop]"
+      }
+    },
+
+    // Seen before the agent replies, so /tts takes effect (e.g. stop) without waiting for the model,
+    // and the acknowledgement's idle is always skipped
+    "chat.message": async (input, output) => {
+      let match: RegExpMatchArray | null = null
+      for (const part of output.parts) {
+        if (part.type === "text") match = part.text.match(COMMAND_PROMPT)
+        if (match) break
+      }
+      if (!match) return
+      commandSessions.add(input.sessionID)
+      if (match[1] !== "tts") return
+
+      await debugLog(`/tts ${match[2]}`)
+      try {
+        await handleTTSCommand(match[2])
+      } catch (e) {
+        const reason = e instanceof Error ? e.message : String(e)
+        await debugLog(`Command error: ${reason}`)
+        await showToast(`TTS command failed: ${reason}`, "error")
+      }
+    },
+
     event: async ({ event }) => {
       if (event.type === "session.idle") {
         const sessionId = (event as any).properties?.sessionID
         await debugLog(`session.idle fired for ${sessionId}`)
+
+        if (commandSessions.delete(sessionId)) {
+          await debugLog(`Reply to plugin command, skipping`)
+          return
+        }
         
         const enabled = await isEnabled()
         if (!enabled) {
@@ -1493,6 +1676,14 @@ export const TTSPlugin: Plugin = async ({ client, directory }) => {
         let shouldKeepInSet = false
 
         try {
+          // Before fetching messages - the judge session may be deleted while they load
+          if (await isJudgeSession(sessionId)) {
+            await debugLog(`Judge session detected, skipping`)
+            // Keep in set - never speak judge sessions
+            shouldKeepInSet = true
+            return
+          }
+
           const { data: messages } = await client.session.messages({ path: { id: sessionId } })
           await debugLog(`Got ${messages?.length || 0} messages`)
           
@@ -1500,10 +1691,9 @@ export const TTSPlugin: Plugin = async ({ client, directory }) => {
             await debugLog(`Not enough messages, skipping`)
             return
           }
-          
-          if (isJudgeSession(messages)) {
-            await debugLog(`Judge session detected, skipping`)
-            // Keep in set - never speak judge sessions
+
+          if (hasJudgePrompt(messages)) {
+            await debugLog(`Judge prompt detected, skipping`)
             shouldKeepInSet = true
             return
           }